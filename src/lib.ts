@@ -6,11 +6,25 @@
 
 import * as fs from 'fs';
 import * as path from 'path';
-import { MappingItem as BaseMappingItem, RawSourceMap, SourceMapConsumer, SourceMapGenerator } from 'source-map';
+import { RawSourceMap, SourceMapConsumer, SourceMapGenerator } from 'source-map';
 import * as ts from 'typescript';
-import clone = require('clone');
 import * as crypto from 'crypto';
 
+declare module 'source-map' {
+	interface SourceMapConsumer {
+		/**
+		 * The original sources, including the ones of all sections of an indexed source map.
+		 */
+		readonly sources: string[];
+	}
+	interface SourceMapGenerator {
+		/**
+		 * Adds a generated position without an original one, which ends the previous mapping.
+		 */
+		addMapping(mapping: { generated: Position }): void;
+	}
+}
+
 export interface Map<V> {
 	[key: string]: V;
 }
@@ -37,6 +51,29 @@ class SingleFileServiceHost implements ts.LanguageServiceHost {
 		this.file.getText(0, this.file.getLength()) : undefined;
 }
 
+class ProjectServiceHost implements ts.LanguageServiceHost {
+
+	private files: Map<ts.IScriptSnapshot> = Object.create(null);
+	private lib: ts.IScriptSnapshot;
+
+	constructor(private options: ts.CompilerOptions, files: { fileName: string, contents: string }[]) {
+		files.forEach(file => this.files[file.fileName] = ts.ScriptSnapshot.fromString(file.contents));
+		this.lib = ts.ScriptSnapshot.fromString('');
+	}
+
+	getCompilationSettings = () => this.options;
+	getScriptFileNames = () => Object.keys(this.files);
+	getScriptVersion = () => '1';
+	getScriptSnapshot = (name: string) => this.files[name] || this.lib;
+	getCurrentDirectory = () => '';
+	getDefaultLibFileName = () => 'lib.d.ts';
+
+	fileExists = (path: string) => this.files[path] !== undefined;
+	readFile = (path: string, _encoding?: string) => {
+		const file = this.files[path];
+		return file ? file.getText(0, file.getLength()) : undefined;
+	};
+}
 
 interface Span {
 	start: ts.LineAndCharacter;
@@ -83,6 +120,89 @@ export namespace JavaScriptMessageBundle {
 	}
 }
 
+export type ProblemCode = 'missing-file' | 'empty-file' | 'missing-message' | 'fallback-message' | 'invalid-placeholders' | 'invalid-mnemonics';
+
+/**
+ * A problem found when generating the localized messages.
+ */
+export interface Problem {
+	code: ProblemCode;
+	severity: 'error' | 'warning';
+	/**
+	 * Folder name of the language.
+	 */
+	language?: string;
+	/**
+	 * Message file relative to the i18n base directory.
+	 */
+	file?: string;
+	key?: string;
+	message: string;
+}
+
+export namespace Problem {
+	/**
+	 * Formats the problems of a language for logging, with a header line and blank lines around them.
+	 */
+	export function format(problems: Problem[], languageFolderName: string): string[] {
+		if (problems.length === 0) {
+			return [];
+		}
+		return [`Generating localized messages for '${languageFolderName}' resulted in the following problems:`, '']
+			.concat(problems.map(problem => problem.message), '', '');
+	}
+}
+
+function getPlaceholders(message: string): string[] {
+	const placeholders = message.match(/\{[^{}]*\}/g) || [];
+	return placeholders.filter((placeholder, index) => placeholders.indexOf(placeholder) === index).sort();
+}
+
+function countMnemonics(message: string): number {
+	return (message.match(/&&/g) || []).length;
+}
+
+/**
+ * Checks that a translated message uses the same placeholders like `{0}` and the same
+ * number of mnemonic markers `&&` as the original message. Reports the differences
+ * to `problems` and returns `false` if there are any.
+ */
+function checkTranslation(key: string, original: string, translated: string, problems: Problem[], severity: 'error' | 'warning' = 'error'): boolean {
+	const originalPlaceholders = getPlaceholders(original);
+	const translatedPlaceholders = getPlaceholders(translated);
+	const missing = originalPlaceholders.filter(placeholder => translatedPlaceholders.indexOf(placeholder) < 0);
+	const unexpected = translatedPlaceholders.filter(placeholder => originalPlaceholders.indexOf(placeholder) < 0);
+	let valid = true;
+	if (missing.length > 0 || unexpected.length > 0) {
+		const differences: string[] = [];
+		if (missing.length > 0) {
+			differences.push(`missing ${missing.join(', ')}`);
+		}
+		if (unexpected.length > 0) {
+			differences.push(`unexpected ${unexpected.join(', ')}`);
+		}
+		problems.push({
+			code: 'invalid-placeholders',
+			severity,
+			key,
+			message: `Placeholders of the localized message for key ${key} do not match the original message: ${differences.join('; ')}`
+		});
+		valid = false;
+	}
+	const originalMnemonics = countMnemonics(original);
+	const translatedMnemonics = countMnemonics(translated);
+	if (originalMnemonics !== translatedMnemonics) {
+		problems.push({
+			code: 'invalid-mnemonics',
+			severity,
+			key,
+			message: `Localized message for key ${key} contains ${translatedMnemonics} mnemonic marker(s) && instead of ${originalMnemonics}`
+		});
+		valid = false;
+	}
+	return valid;
+}
+
 export interface ResolvedJavaScriptMessageBundle {
 	messages: string[];
 	keys: string[];
@@ -94,13 +214,20 @@ export namespace ResolvedJavaScriptMessageBundle {
 		const candidate = value as ResolvedJavaScriptMessageBundle;
 		return candidate && candidate.keys !== undefined && candidate.messages !== undefined && candidate.map !== undefined;
 	}
-	export function asTranslatedMessages(bundle: ResolvedJavaScriptMessageBundle, translatedMessages: Map<string> | undefined, problems: string[]): string[] {
+	export function asTranslatedMessages(bundle: ResolvedJavaScriptMessageBundle, translatedMessages: Map<string> | undefined, problems: Problem[], fallbackOnMismatch: boolean = false): string[] {
 		const result: string[] = [];
 		bundle.keys.forEach(key => {
+			// Tombstones of removed keys keep the indexes of the following messages.
+			if (key === '') {
+				result.push('');
+				return;
+			}
 			let translated = translatedMessages ? translatedMessages[key] : undefined;
-			if (translated === undefined) {
+			if (translated !== undefined && !checkTranslation(key, bundle.map[key], translated, problems, fallbackOnMismatch ? 'warning' : 'error') && fallbackOnMismatch) {
+				translated = bundle.map[key];
+			} else if (translated === undefined) {
 				if (translatedMessages) {
-					problems.push(`No localized message found for key ${key}`);
+					problems.push({ code: 'missing-message', severity: 'warning', key, message: `No localized message found for key ${key}` });
 				}
 				translated = bundle.map[key];
 			}
@@ -119,13 +246,15 @@ export interface PackageJsonMessageBundle {
 }
 
 export namespace PackageJsonMessageBundle {
-	export function asTranslatedMessages(bundle: PackageJsonMessageBundle, translatedMessages: Map<string> | undefined, problems: string[]): Map<string> {
+	export function asTranslatedMessages(bundle: PackageJsonMessageBundle, translatedMessages: Map<string> | undefined, problems: Problem[], fallbackOnMismatch: boolean = false): Map<string> {
 		const result: Map<string> = Object.create(null);
 		Object.keys(bundle).forEach((key) => {
 			let message = translatedMessages ? translatedMessages[key] : undefined;
-			if (message === undefined) {
+			if (message !== undefined && !checkTranslation(key, bundle[key], message, problems, fallbackOnMismatch ? 'warning' : 'error') && fallbackOnMismatch) {
+				message = bundle[key];
+			} else if (message === undefined) {
 				if (translatedMessages) {
-					problems.push(`No localized message found for key ${key}`);
+					problems.push({ code: 'missing-message', severity: 'warning', key, message: `No localized message found for key ${key}` });
 				}
 				message = bundle[key];
 			}
@@ -135,72 +264,176 @@ export namespace PackageJsonMessageBundle {
 	}
 }
 
+/**
+ * How a detected problem is reported: `error` fails the processing,
+ * `warning` is reported without failing and `ignore` is not reported at all.
+ */
+export type Severity = 'error' | 'warning' | 'ignore';
+
+export interface ProcessFileOptions {
+	/**
+	 * Module specifiers of run-time modules, which are recognised in addition
+	 * to `vscode-nls`, e.g. `vscode-nls-i18n` or a re-exporting `./nls`.
+	 */
+	modules?: string[];
+	/**
+	 * Names of factory methods of the run-time modules returning a localize
+	 * function, which are recognised in addition to `loadMessageBundle`.
+	 */
+	factoryMethods?: string[];
+	/**
+	 * Name of the processed file. Its extension selects the language of the source,
+	 * so that TypeScript sources (`.ts`, `.tsx`, `.mts`, `.cts`) can be processed before
+	 * they are compiled. Other files are processed as JavaScript.
+	 */
+	fileName?: string;
+	/**
+	 * Severity of placeholders like `{0}` in a message, which are missing an argument
+	 * of the localize call, and of unused arguments. Defaults to `warning`. Placeholders
+	 * out of order, which are valid, are reported as warnings at most.
+	 */
+	placeholders?: Severity;
+	/**
+	 * Severity of a key used again with a different message in the same message bundle.
+	 * Defaults to `error`. Keys used again with the same message share the bundle entry.
+	 * If not reported as an error, the first message of the key is kept in the bundle.
+	 */
+	duplicates?: Severity;
+	/**
+	 * Order of the keys in the message bundle from a previous build. If set, the message
+	 * indexes are kept stable: known keys keep their positions, new keys are appended and
+	 * removed keys leave tombstones (`null`), which are stored as empty keys and messages
+	 * in the bundle. The updated order is returned in `keyOrder` of the result.
+	 */
+	keyOrder?: (string | null)[];
+}
+
+export interface LocalizeCallInfo {
+	key: string;
+	message: string;
+	comment?: string[];
+	/**
+	 * Index of the message in the message bundle.
+	 */
+	index: number;
+	/**
+	 * Zero-based position of the localize call in the processed source.
+	 */
+	position: ts.LineAndCharacter;
+}
+
 interface AnalysisResult {
 	patches: Patch[];
 	errors: string[];
-	bundle: JavaScriptMessageBundle;
+	warnings: string[];
+	bundle?: JavaScriptMessageBundle;
+	calls: LocalizeCallInfo[];
+	keyOrder?: (string | null)[];
+}
+
+interface AnalysisOptions extends ProcessFileOptions {
+	/**
+	 * Namespace of the `vscode.l10n` API. If set, the localize calls are migrated to its
+	 * calls and the unused setup of vscode-nls is removed, instead of rewriting the calls.
+	 */
+	l10n?: string;
 }
 
-interface MappingItem extends BaseMappingItem {
-	delete?: boolean;
-	columnDelta?: number;
-	lineDelta?: number;
+const sourceExtensions = ['.js', '.jsx', '.mjs', '.cjs', '.ts', '.tsx', '.mts', '.cts'];
+
+interface Mapping {
+	generatedOffset: number;
+	source: string | null;
+	originalLine: number | null;
+	originalColumn: number | null;
+	name: string | null;
 }
 
-interface Line {
-	content: string | null;
-	ending: string;
-	mappings: MappingItem[] | null;
+/**
+ * A sectioned source map, as produced by some bundlers when concatenating modules.
+ */
+export interface RawIndexMap {
+	version: number | string;
+	file?: string;
+	sections: {
+		offset: { line: number; column: number };
+		map: RawSourceMap;
+	}[];
 }
 
+export type SourceMap = RawSourceMap | RawIndexMap;
+
+const inlineSourceMapRegExp = /(\/\/[#@]\s*sourceMappingURL=data:application\/json(?:;charset=[\w-]+)?;base64,)([A-Za-z0-9+/]*=*)(?=\s*$)/;
+
 const toString = Object.prototype.toString;
 
 function isString(value: any): value is string {
 	return toString.call(value) === '[object String]';
 }
 
-class TextModel {
+function getLineStarts(contents: string): number[] {
+	const regex = /\r\n|\r|\n/g;
+	const lineStarts = [0];
 
-	private lines: Line[];
+	while (regex.exec(contents)) {
+		lineStarts.push(regex.lastIndex);
+	}
+	return lineStarts;
+}
 
-	constructor(contents: string, private rawSourceMap?: RawSourceMap) {
-		const regex = /\r\n|\r|\n/g;
-		let index = 0;
-		let match: RegExpExecArray | null;
+class TextModel {
 
-		this.lines = [];
+	private lineStarts: number[];
+	private mappings: Mapping[];
+	private sourceContents: { source: string, content: string }[];
 
-		while (match = regex.exec(contents)) {
-			this.lines.push({ content: contents.substring(index, match.index), ending: match[0], mappings: null });
-			index = regex.lastIndex;
-		}
+	constructor(private contents: string, private rawSourceMap?: SourceMap) {
+		this.lineStarts = getLineStarts(contents);
+		this.mappings = [];
+		this.sourceContents = [];
 
-		if (contents.length > 0) {
-			this.lines.push({ content: contents.substring(index, contents.length), ending: '', mappings: null });
-		}
 		if (rawSourceMap) {
-			const sourceMapConsumer = new SourceMapConsumer(rawSourceMap);
-			sourceMapConsumer.eachMapping((mapping) => {
-				// Note that the generatedLine index is one based;
-				let line = this.lines[mapping.generatedLine - 1];
-				if (line) {
-					if (!line.mappings) {
-						line.mappings = [];
+			// The sections of an indexed source map are read one by one and shifted by their offsets.
+			const sections = 'sections' in rawSourceMap ? rawSourceMap.sections : [{ offset: { line: 0, column: 0 }, map: rawSourceMap }];
+			sections.forEach(section => {
+				const sourceMapConsumer = new SourceMapConsumer(section.map);
+				sourceMapConsumer.sources.forEach(source => {
+					const content = sourceMapConsumer.sourceContentFor(source, true);
+					if (content !== null && !this.sourceContents.some(sourceContent => sourceContent.source === source)) {
+						this.sourceContents.push({ source, content });
 					}
-					line.mappings.push(mapping);
-				}
-			}, null, SourceMapConsumer.GENERATED_ORDER);
+				});
+				sourceMapConsumer.eachMapping((mapping) => {
+					// Note that the generatedLine index is one based; the column offset applies to the first line of the section only.
+					const lineStart = this.lineStarts[mapping.generatedLine - 1 + section.offset.line];
+					if (lineStart !== undefined) {
+						this.mappings.push({
+							generatedOffset: lineStart + mapping.generatedColumn + (mapping.generatedLine === 1 ? section.offset.column : 0),
+							source: mapping.source,
+							originalLine: mapping.originalLine,
+							originalColumn: mapping.originalColumn,
+							name: mapping.name
+						});
+					}
+				}, null, SourceMapConsumer.GENERATED_ORDER);
+			});
 		}
 	}
 
 	public get lineCount(): number {
-		return this.lines.length;
+		return this.lineStarts.length;
+	}
+
+	private getOffset(position: ts.LineAndCharacter): number {
+		return this.lineStarts[position.line] + position.character;
 	}
 
 	/**
 	 * Applies patch(es) to the model.
-	 * Multiple patches must be ordered.
-	 * Does not support patches spanning multiple lines.
+	 * Multiple patches must not overlap. Patches may span multiple lines.
+	 * Source mappings of the replaced text are deleted, except for the mapping
+	 * at the start of the patch, which is kept for the replacement. If there is
+	 * none, the first mapping inside the patch is moved to its start.
 	 */
 	public apply(patches: Patch[]): void {
 		if (patches.length === 0) {
@@ -219,7 +452,8 @@ class TextModel {
 			for (let i = 1; i < patches.length; i++) {
 				const nextSpan = patches[i].span;
 
-				if (previousSpan.end.line > nextSpan.start.line || (previousSpan.end.line === nextSpan.start.line && previousSpan.end.character >= nextSpan.start.character)) {
+				// Patches may touch, like removals of adjacent lines.
+				if (previousSpan.end.line > nextSpan.start.line || (previousSpan.end.line === nextSpan.start.line && previousSpan.end.character > nextSpan.start.character)) {
 					overlapping = true;
 					break;
 				}
@@ -229,135 +463,117 @@ class TextModel {
 			throw new Error(`Overlapping text edits generated.`);
 		}
 		const lastPatch = patches[patches.length - 1];
-		const lastLine = this.lines[this.lineCount - 1];
-
-		if (lastPatch.span.end.line > this.lines.length || (lastPatch.span.end.line === this.lineCount && lastPatch.span.end.character > lastLine.content!.length)) {
+		const endLine = lastPatch.span.end.line;
+		if (endLine >= this.lineStarts.length || this.getOffset(lastPatch.span.end) > (endLine + 1 < this.lineStarts.length ? this.lineStarts[endLine + 1] : this.contents.length)) {
 			throw new Error(`Patches are outside of the buffer content.`);
 		}
 
-		let mappingCursor: {
-			line: number;
-			index: number;
-		} = { line: -1, index: -1 };
-		patches.reverse().forEach((patch) => {
-			const startLineNumber = patch.span.start.line;
-			const endLineNumber = patch.span.end.line;
-
-			const startLine = this.lines[startLineNumber];
-			const endLine = this.lines[endLineNumber];
-
-			// Do the textual manipulations.
-			startLine.content = [
-				startLine.content!.substring(0, patch.span.start.character),
-				patch.content,
-				endLine.content!.substring(patch.span.end.character)
-			].join('');
-			for (let i = startLineNumber + 1; i <= endLineNumber; i++) {
-				this.lines[i].content = null;
-			}
-
-			// Adopt source mapping if available
-			if (this.rawSourceMap) {
-				if (startLineNumber === endLineNumber) {
-					if (!mappingCursor || mappingCursor.line !== startLineNumber) {
-						mappingCursor.line = startLineNumber;
-						mappingCursor.index = startLine.mappings ? startLine.mappings.length - 1 : -1;
-					}
-					let delta = patch.content.length - (patch.span.end.character - patch.span.start.character);
-					let mappingItem: MappingItem | null = null;
-					while ((mappingItem = mappingCursor.index !== -1 ? startLine.mappings![mappingCursor.index] : null) !== null
-						&& mappingItem.generatedColumn > patch.span.start.character) {
-						if (mappingItem.generatedColumn < patch.span.end.character) {
-							// The patch covers the source mapping. Delete it
-							mappingItem.delete = true;
-						}
-						mappingCursor.index--;
-					}
-					// Record the delta on the first source marker after the patch.
-					if (mappingCursor.index + 1 < startLine.mappings!.length) {
-						let mapping = startLine.mappings![mappingCursor.index + 1];
-						mapping.columnDelta = (mapping.columnDelta || 0) + delta;
-					}
-				} else {
-					let startLineMappings = startLine.mappings;
-					if (startLineMappings) {
-						for (let i = startLineMappings.length - 1; i >= 0 && startLineMappings[i].generatedColumn > patch.span.start.character; i--) {
-							startLineMappings[i].delete = true;
-						}
-					}
-					for (let i = startLineNumber + 1; i < endLineNumber; i++) {
-						let line = this.lines[i];
-						if (line.mappings) {
-							line.mappings.forEach(mapping => mapping.delete = true);
-						}
-					}
-					let endLineMappings = endLine.mappings;
-					if (endLineMappings) {
-						let lineDelta = startLineNumber - endLineNumber;
-						let index = 0;
-						for (; index < endLineMappings.length; index++) {
-							let mapping = endLineMappings[index];
-							if (mapping.generatedColumn < patch.span.end.character) {
-								mapping.delete = true;
-							} else {
-								break;
-							}
-						}
-						if (index < endLineMappings.length) {
-							let mapping = endLineMappings[index];
-							mapping.lineDelta = lineDelta;
-							mapping.columnDelta = (patch.span.start.character - patch.span.end.character) + patch.content.length;
-						}
-					}
+		// Do the textual manipulations and remember where the patches ended up.
+		const buffer: string[] = [];
+		const edits: { start: number, end: number, newStart: number, newEnd: number }[] = [];
+		let offset = 0;
+		let newOffset = 0;
+		patches.forEach(patch => {
+			const start = this.getOffset(patch.span.start);
+			const end = this.getOffset(patch.span.end);
+			buffer.push(this.contents.substring(offset, start), patch.content);
+			newOffset += start - offset;
+			edits.push({ start, end, newStart: newOffset, newEnd: newOffset + patch.content.length });
+			newOffset += patch.content.length;
+			offset = end;
+		});
+		buffer.push(this.contents.substring(offset));
+
+		// Adopt source mapping. Both the mappings and the edits are ordered by their offsets.
+		const mappings: Mapping[] = [];
+		let editIndex = 0;
+		let delta = 0;
+		let mappedEdit = -1;
+		this.mappings.forEach(mapping => {
+			const generatedOffset = mapping.generatedOffset;
+			while (editIndex < edits.length && edits[editIndex].end <= generatedOffset) {
+				delta = edits[editIndex].newEnd - edits[editIndex].end;
+				editIndex++;
+			}
+			const edit = edits[editIndex];
+			if (edit && edit.start <= generatedOffset) {
+				// The patch covers the source mapping. Keep only the first one for the replacement.
+				if (mappedEdit !== editIndex) {
+					mappedEdit = editIndex;
+					mappings.push(Object.assign({}, mapping, { generatedOffset: edit.newStart }));
 				}
+			} else {
+				mappings.push(Object.assign({}, mapping, { generatedOffset: generatedOffset + delta }));
 			}
 		});
+
+		this.contents = buffer.join('');
+		this.lineStarts = getLineStarts(this.contents);
+		this.mappings = mappings;
 	}
 
 	public generateSourceMap(): string | undefined {
 		if (!this.rawSourceMap) {
 			return undefined;
 		}
-		const sourceMapGenerator = new SourceMapGenerator({ sourceRoot: this.rawSourceMap.sourceRoot });
-		let lineDelta = 0;
-		this.lines.forEach(line => {
-			const mappings = line.mappings;
-			let columnDelta = 0;
-			if (mappings) {
-				mappings.forEach(mapping => {
-					lineDelta = (mapping.lineDelta || 0) + lineDelta;
-					columnDelta = (mapping.columnDelta || 0) + columnDelta;
-					if (mapping.delete) {
-						return;
-					}
-					sourceMapGenerator.addMapping({
-						source: mapping.source,
-						name: mapping.name,
-						original: { line: mapping.originalLine, column: mapping.originalColumn },
-						generated: { line: mapping.generatedLine + lineDelta, column: mapping.generatedColumn + columnDelta }
-					});
-				});
+		// Indexed source maps have no source root, only their sections do.
+		const sourceRoot = 'sections' in this.rawSourceMap ? undefined : this.rawSourceMap.sourceRoot;
+		const sourceMapGenerator = new SourceMapGenerator({ sourceRoot });
+		let line = 0;
+		this.mappings.forEach(mapping => {
+			while (line + 1 < this.lineStarts.length && this.lineStarts[line + 1] <= mapping.generatedOffset) {
+				line++;
 			}
+			const generated = { line: line + 1, column: mapping.generatedOffset - this.lineStarts[line] };
+			if (mapping.source === null || mapping.originalLine === null || mapping.originalColumn === null) {
+				sourceMapGenerator.addMapping({ generated });
+				return;
+			}
+			sourceMapGenerator.addMapping({
+				source: mapping.source,
+				name: mapping.name || undefined,
+				original: { line: mapping.originalLine, column: mapping.originalColumn },
+				generated
+			});
 		});
+		this.sourceContents.forEach(({ source, content }) => sourceMapGenerator.setSourceContent(source, content));
 		return sourceMapGenerator.toString();
 	}
 
 	public toString(): string {
-		let count = this.lineCount;
-		let buffer: string[] = [];
-		for (let i = 0; i < count; i++) {
-			let line = this.lines[i];
-			if (line.content) {
-				buffer.push(line.content + line.ending);
-			}
-		}
-		return buffer.join('');
+		return this.contents;
 	}
 }
 
-function analyze(contents: string, relativeFilename: string | undefined, options: ts.CompilerOptions = {}): AnalysisResult {
+function analyze(contents: string, relativeFilename: string | undefined, analysisOptions: ProcessFileOptions = {}): AnalysisResult {
+	const options: ts.CompilerOptions = {
+		noResolve: true,
+		allowJs: true
+	};
+
+	const extension = analysisOptions.fileName ? path.extname(analysisOptions.fileName).toLowerCase() : '';
+	const filename = `file${sourceExtensions.indexOf(extension) >= 0 ? extension : '.js'}`;
+	const serviceHost = new SingleFileServiceHost(options, filename, contents);
+	const service = ts.createLanguageService(serviceHost);
+	return analyzeFiles(service, [filename], () => relativeFilename, () => analysisOptions.keyOrder, analysisOptions)[filename];
+}
 
-	const vscodeRegExp = /^\s*(["'])vscode-nls\1\s*$/;
+/**
+ * Analyzes localize calls in the specified files of the language service program.
+ * Localize functions are followed to the other files of the program, if the program
+ * resolves modules, and their calls are rewritten to use the message bundle of the
+ * file, which loaded them.
+ */
+function analyzeFiles(service: ts.LanguageService, filenames: string[], getRelativeFilename: (filename: string) => string | undefined,
+	getKeyOrder: (filename: string) => (string | null)[] | undefined, analysisOptions: AnalysisOptions): Map<AnalysisResult> {
+
+	const modules = ['vscode-nls'].concat(analysisOptions.modules || []);
+	const factoryMethods = ['loadMessageBundle'].concat(analysisOptions.factoryMethods || []);
+	const interopHelpers = ['__importStar', '__toESM', '_interopRequireWildcard'];
+	const l10n = analysisOptions.l10n;
+	// Keys and placeholders of the migrated calls are not used any more.
+	const placeholderSeverity = l10n ? 'ignore' : analysisOptions.placeholders || 'warning';
+	const duplicateSeverity = l10n ? 'ignore' : analysisOptions.duplicates || 'error';
 
 	enum CollectStepResult {
 		Yes,
@@ -385,15 +601,17 @@ function analyze(contents: string, relativeFilename: string | undefined, options
 		return result;
 	}
 
+	function isNlsModule(node: ts.Expression): boolean {
+		return ts.isStringLiteralLike(node) && modules.indexOf(node.text) >= 0;
+	}
+
 	function isImportNode(node: ts.Node): boolean {
 		if (ts.isImportDeclaration(node)) {
-			return ts.isStringLiteralLike(node.moduleSpecifier) && vscodeRegExp.test(node.moduleSpecifier.getText());
+			return isNlsModule(node.moduleSpecifier);
 		}
 
 		if (ts.isImportEqualsDeclaration(node)) {
-			return ts.isExternalModuleReference(node.moduleReference)
-			 && ts.isStringLiteralLike(node.moduleReference.expression)
-			 && vscodeRegExp.test(node.moduleReference.expression.getText());
+			return ts.isExternalModuleReference(node.moduleReference) && isNlsModule(node.moduleReference.expression);
 		}
 		return false;
 	}
@@ -406,8 +624,36 @@ function analyze(contents: string, relativeFilename: string | undefined, options
 		if (node.expression.getText() !== 'require' || !node.arguments || node.arguments.length !== 1) {
 			return false;
 		}
-		const argument = node.arguments[0];
-		return ts.isStringLiteralLike(argument) && vscodeRegExp.test(argument.getText());
+		return isNlsModule(node.arguments[0]);
+	}
+
+	/**
+	 * Skips helpers wrapping a required module, which are emitted by TypeScript
+	 * (__importStar), esbuild (__toESM) or Babel (_interopRequireWildcard).
+	 */
+	function skipInteropWrappers(node: ts.Node): ts.Node {
+		let parent = node.parent;
+		while (ts.isCallExpression(parent) && parent.arguments[0] === node
+			&& ts.isIdentifier(parent.expression) && interopHelpers.indexOf(parent.expression.text) >= 0) {
+			node = parent;
+			parent = node.parent;
+		}
+		return parent;
+	}
+
+	/**
+	 * Returns the node which is called, if the expression is used as a function
+	 * call target, either directly or through the indirect form `(0, expression)()`
+	 * emitted by compilers for named imports.
+	 */
+	function getCallOf(expression: ts.Expression): ts.CallExpression | undefined {
+		let callee: ts.Expression = expression;
+		const parent = expression.parent;
+		if (ts.isBinaryExpression(parent) && parent.operatorToken.kind === ts.SyntaxKind.CommaToken
+			&& parent.right === expression && ts.isParenthesizedExpression(parent.parent)) {
+			callee = parent.parent;
+		}
+		return ts.isCallExpression(callee.parent) && callee.parent.expression === callee ? callee.parent : undefined;
 	}
 
 	function findClosestNode(node: ts.Node, textSpan: ts.TextSpan): ts.Node | undefined {
@@ -426,263 +672,945 @@ function analyze(contents: string, relativeFilename: string | undefined, options
 		return loop(node);
 	}
 
-	const unescapeMap: Map<string> = {
-		'\'': '\'',
-		'"': '"',
-		'\\': '\\',
-		'n': '\n',
-		'r': '\r',
-		't': '\t',
-		'b': '\b',
-		'f': '\f'
-	};
+	function findNode(fileName: string, textSpan: ts.TextSpan): ts.Node | undefined {
+		const sourceFile = program.getSourceFile(fileName);
+		return sourceFile && results[fileName] ? findClosestNode(sourceFile, textSpan) : undefined;
+	}
 
-	function unescapeString(str: string): string {
-		const result: string[] = [];
-		for (let i = 0; i < str.length; i++) {
-			const ch = str.charAt(i);
-			if (ch === '\\') {
-				if (i + 1 < str.length) {
-					let replace = unescapeMap[str.charAt(i + 1)];
-					if (replace !== undefined) {
-						result.push(replace);
-						i++;
-						continue;
-					}
+	function getReferenceNodes(name: ts.Node): ts.Node[] {
+		const result: ts.Node[] = [];
+		const references = service.getReferencesAtPosition(name.getSourceFile().fileName, name.getStart());
+		if (references) {
+			references.forEach(reference => {
+				const node = findNode(reference.fileName, reference.textSpan);
+				// A shorthand property assignment writes the property, but reads the variable.
+				if (node && (!reference.isWriteAccess || ts.isShorthandPropertyAssignment(node.parent))) {
+					result.push(node);
 				}
-			}
-			result.push(ch);
+			});
 		}
-		return result.join('');
+		return result;
 	}
 
-	options = clone(options, false);
-	options.noResolve = true;
-	options.allowJs = true;
+	/**
+	 * Evaluates an expression consisting of string literals, no-substitution
+	 * template literals and their concatenations. Returns undefined if any part of
+	 * the expression is not a constant string.
+	 */
+	function evaluateString(node: ts.Expression): string | undefined {
+		if (ts.isStringLiteralLike(node)) {
+			// The scanner has already decoded all escape sequences and line continuations.
+			return node.text;
+		}
+		if (ts.isParenthesizedExpression(node)) {
+			return evaluateString(node.expression);
+		}
+		if (ts.isBinaryExpression(node) && node.operatorToken.kind === ts.SyntaxKind.PlusToken) {
+			const left = evaluateString(node.left);
+			if (left === undefined) {
+				return undefined;
+			}
+			const right = evaluateString(node.right);
+			if (right === undefined) {
+				return undefined;
+			}
+			return left + right;
+		}
+		return undefined;
+	}
 
-	const filename = 'file.js';
-	const serviceHost = new SingleFileServiceHost(options, filename, contents);
-	const service = ts.createLanguageService(serviceHost);
-	const sourceFile = service.getProgram()!.getSourceFile(filename)!;
+	function resultOf(node: ts.Node): AnalysisResult {
+		return results[node.getSourceFile().fileName];
+	}
 
-	const patches: Patch[] = [];
-	const errors: string[] = [];
-	const bundle: JavaScriptMessageBundle = { messages: [], keys: [] };
+	function getSpan(node: ts.Node): Span {
+		const sourceFile = node.getSourceFile();
+		return {
+			start: ts.getLineAndCharacterOfPosition(sourceFile, node.pos + node.getLeadingTriviaWidth()),
+			end: ts.getLineAndCharacterOfPosition(sourceFile, node.end)
+		};
+	}
 
-	// all imports
-	const imports = collect(sourceFile, n => isRequireImport(n) || isImportNode(n) ? CollectStepResult.YesAndRecurse : CollectStepResult.NoAndRecurse);
+	function reportError(node: ts.Node, pos: number, message: string): void {
+		report(node, pos, message, 'error');
+	}
 
-	const nlsReferences = imports.reduce<ts.Node[]>((memo, node) => {
-		let references: ts.ReferenceEntry[] | undefined;
+	function report(node: ts.Node, pos: number, message: string, severity: Severity): void {
+		if (severity === 'ignore') {
+			return;
+		}
+		const position = ts.getLineAndCharacterOfPosition(node.getSourceFile(), pos);
+		const result = resultOf(node);
+		(severity === 'error' ? result.errors : result.warnings).push(`(${position.line + 1},${position.character + 1}): ${message}`);
+	}
 
-		if (ts.isCallExpression(node)) {
-			let parent = node.parent;
-			if (ts.isCallExpression(parent) && ts.isIdentifier(parent.expression) && parent.expression.text === '__importStar') {
-				parent = node.parent.parent;
-			}
-			if (ts.isVariableDeclaration(parent)) {
-				references = service.getReferencesAtPosition(filename, parent.name.pos + 1);
-			}
-		} else if (ts.isImportDeclaration(node) && node.importClause && node.importClause.namedBindings) {
-			if (ts.isNamespaceImport(node.importClause.namedBindings)) {
-				references = service.getReferencesAtPosition(filename, node.importClause.namedBindings.pos);
+	function checkPlaceholders(localizeCall: ts.CallExpression, message: string): void {
+		const messageArg = localizeCall.arguments[1];
+		const args = localizeCall.arguments.slice(2);
+		const indexes: number[] = [];
+		const regex = /\{(\d+)\}/g;
+		let match: RegExpExecArray | null;
+		while (match = regex.exec(message)) {
+			const index = Number(match[1]);
+			if (indexes.indexOf(index) < 0) {
+				indexes.push(index);
 			}
-		} else if (ts.isImportEqualsDeclaration(node)) {
-			references = service.getReferencesAtPosition(filename, node.name.pos);
 		}
-
-		if (references) {
-			references.forEach(reference => {
-				if (!reference.isWriteAccess) {
-					const node = findClosestNode(sourceFile, reference.textSpan);
-					if (node) {
-						memo.push(node);
-					}
-				}
-			});
+		for (let i = 1; i < indexes.length; i++) {
+			if (indexes[i] < indexes[i - 1]) {
+				report(messageArg, messageArg.pos, `placeholders in the message are out of order: {${indexes[i - 1]}} precedes {${indexes[i]}}.`, placeholderSeverity === 'error' ? 'warning' : placeholderSeverity);
+				break;
+			}
 		}
-
-		return memo;
-	}, []);
-
-	const loadCalls = nlsReferences.reduce<ts.CallExpression[]>((memo, node) => {
-		// We are looking for nls.loadMessageBundle || nls.config. In the AST
-		// this is Indetifier -> PropertyAccess -> CallExpression.
-		if (!ts.isIdentifier(node) || !ts.isPropertyAccessExpression(node.parent) || !ts.isCallExpression(node.parent.parent)) {
-			return memo;
+		// The number of arguments passed by a spread element is not known.
+		if (args.some(arg => ts.isSpreadElement(arg))) {
+			return;
 		}
-		const callExpression = node.parent.parent;
-		const expression = callExpression.expression;
-		if (ts.isPropertyAccessExpression(expression)) {
-			if (expression.name.text === 'loadMessageBundle') {
-				// We have a load call like nls.loadMessageBundle();
-				memo.push(callExpression);
-			} else if (expression.name.text === 'config') {
-				// We have a load call like nls.config({...})();
-				let parent = callExpression.parent;
-				if (ts.isCallExpression(parent) && parent.expression === callExpression) {
-					memo.push(parent);
-				}
+		indexes.filter(index => index >= args.length).sort((a, b) => a - b).forEach(index => {
+			report(messageArg, messageArg.pos, `placeholder {${index}} in the message has no argument in the localize call.`, placeholderSeverity);
+		});
+		args.forEach((arg, index) => {
+			if (indexes.indexOf(index) < 0) {
+				report(arg, arg.pos, `argument ${index} of the localize call is not used in the message as {${index}}.`, placeholderSeverity);
 			}
+		});
+	}
+
+	function reportUnusualUsage(usage: ts.Expression, boundTo: string, construct: string): void {
+		if (rejectedUsages.has(usage)) {
+			return;
 		}
-		return memo;
-	}, []);
-
-	const localizeCalls = loadCalls.reduce<ts.CallExpression[]>((memo, loadCall) => {
-		const parent = loadCall.parent;
-		if (ts.isCallExpression(parent)) {
-			// We have something like nls.config({...})()('key', 'message');
-			memo.push(parent);
-		} else if (ts.isVariableDeclaration(parent)) {
-			// We have something like var localize = nls.config({...})();
-			const references = service.getReferencesAtPosition(filename, parent.name.pos + 1);
-			if (references) {
-				references.forEach(reference => {
-					if (!reference.isWriteAccess) {
-						const node = findClosestNode(sourceFile, reference.textSpan);
-						if (node) {
-							if (ts.isIdentifier(node)) {
-								let parent = node.parent;
-								if (ts.isCallExpression(parent) && parent.arguments.length >= 2) {
-									memo.push(parent);
-								} else {
-									let position = ts.getLineAndCharacterOfPosition(sourceFile, node.pos);
-									errors.push(`(${position.line + 1},${position.character + 1}): localize function (bound to ${node.text}) used in an unusual way.`);
-								}
-							}
-						}
-					}
-				});
-			}
+		rejectedUsages.add(usage);
+		reportError(usage, usage.getStart(), `localize function (bound to ${boundTo}) used in an unusual way: ${construct}.`);
+	}
+
+	function describeConstruct(node: ts.Node): string {
+		switch (node.kind) {
+			case ts.SyntaxKind.ReturnStatement:
+				return 'returned from a function';
+			case ts.SyntaxKind.ArrayLiteralExpression:
+				return 'stored in an array literal';
+			case ts.SyntaxKind.ConditionalExpression:
+				return 'used in a conditional expression';
+			case ts.SyntaxKind.BinaryExpression:
+				return `used as an operand of ${(node as ts.BinaryExpression).operatorToken.getText()}`;
+			case ts.SyntaxKind.ElementAccessExpression:
+				return 'accessed by an element index';
+			case ts.SyntaxKind.PropertyAccessExpression:
+				return `accessed by a property ${(node as ts.PropertyAccessExpression).name.getText()}`;
+			case ts.SyntaxKind.VariableDeclaration:
+				return 'assigned to a destructuring pattern';
+			default:
+				return `used in ${ts.SyntaxKind[node.kind]}`;
 		}
-		return memo;
-	}, []);
+	}
 
-	loadCalls.reduce((memo, loadCall) => {
-		if (loadCall.arguments.length === 0) {
-			const args = loadCall.arguments;
-			patches.push({
-				span: { start: ts.getLineAndCharacterOfPosition(sourceFile, args.pos), end: ts.getLineAndCharacterOfPosition(sourceFile, args.end) },
-				content: relativeFilename ? `require('path').join(__dirname, '${relativeFilename.replace(/\\/g, '\\\\')}')` : '__filename',
-			});
+	/**
+	 * Finds the parameter of a function declared in the analyzed files, which
+	 * receives the argument at the specified index of the call.
+	 */
+	function findParameter(call: ts.CallExpression, index: number): ts.ParameterDeclaration | undefined {
+		const callee = ts.isPropertyAccessExpression(call.expression) ? call.expression.name : call.expression;
+		const definitions = service.getDefinitionAtPosition(call.getSourceFile().fileName, callee.getStart());
+		if (!definitions || definitions.length !== 1) {
+			return undefined;
 		}
-		return memo;
-	}, patches);
-
-	let messageIndex = 0;
-	localizeCalls.reduce((memo, localizeCall) => {
-		const firstArg = localizeCall.arguments[0];
-		const secondArg = localizeCall.arguments[1];
-		let key: string | null = null;
-		let message: string | null = null;
-		let comment: string[] = [];
-		let text: string | null = null;
-		if (ts.isStringLiteralLike(firstArg)) {
-			text = firstArg.getText();
-			key = text.substr(1, text.length - 2);
-		} else if (ts.isObjectLiteralExpression(firstArg)) {
-			for (let i = 0; i < firstArg.properties.length; i++) {
-				const property = firstArg.properties[i];
-				if (ts.isPropertyAssignment(property)) {
-					const name = property.name.getText();
-					if (name === 'key') {
-						const initializer = property.initializer;
-						if (ts.isStringLiteralLike(initializer)) {
-							text = initializer.getText();
-							key = text.substr(1, text.length - 2);
-						}
-					} else if (name === 'comment') {
-						const initializer = property.initializer;
-						if (ts.isArrayLiteralExpression(initializer)) {
-							initializer.elements.forEach(element => {
-								if (ts.isStringLiteralLike(element)) {
-									text = element.getText();
-									comment.push(text.substr(1, text.length - 2));
-								}
-							});
-						}
-					}
-				}
-			}
+		const name = findNode(definitions[0].fileName, definitions[0].textSpan);
+		if (!name) {
+			return undefined;
 		}
-		if (!key) {
-			const position = ts.getLineAndCharacterOfPosition(sourceFile, firstArg.pos);
-			errors.push(`(${position.line + 1},${position.character + 1}): first argument of a localize call must either be a string literal or an object literal of type LocalizeInfo.`);
-			return memo;
+		let declaration: ts.Node = name.parent;
+		if ((ts.isVariableDeclaration(declaration) || ts.isPropertyAssignment(declaration) || ts.isPropertyDeclaration(declaration)) && declaration.initializer) {
+			declaration = declaration.initializer;
 		}
-		if (ts.isStringLiteralLike(secondArg)) {
-			const text = secondArg.getText();
-			message = text.substr(1, text.length - 2);
+		if (!ts.isFunctionLike(declaration)) {
+			return undefined;
 		}
-		if (!message) {
-			const position = ts.getLineAndCharacterOfPosition(sourceFile, secondArg.pos);
-			errors.push(`(${position.line + 1},${position.character + 1}): second argument of a localize call must be a string literal.`);
-			return memo;
+		const parameter = declaration.parameters[index];
+		return parameter && !parameter.dotDotDotToken && ts.isIdentifier(parameter.name) ? parameter : undefined;
+	}
+
+	function fileOrder(node: ts.Node): number {
+		const index = filenames.indexOf(node.getSourceFile().fileName);
+		return index < 0 ? filenames.length : index;
+	}
+
+	function trackBinding(name: ts.Node, localizeCalls: ts.CallExpression[]): void {
+		if (trackedNames.has(name)) {
+			return;
 		}
-		message = unescapeString(message);
-		memo.patches.push({
-			span: { start: ts.getLineAndCharacterOfPosition(sourceFile, firstArg.pos + firstArg.getLeadingTriviaWidth()), end: ts.getLineAndCharacterOfPosition(sourceFile, firstArg.end) },
-			content: messageIndex.toString()
-		});
-		memo.patches.push({
-			span: { start: ts.getLineAndCharacterOfPosition(sourceFile, secondArg.pos + secondArg.getLeadingTriviaWidth()), end: ts.getLineAndCharacterOfPosition(sourceFile, secondArg.end) },
-			content: 'null'
+		trackedNames.add(name);
+		getReferenceNodes(name).forEach(reference => {
+			if (ts.isIdentifier(reference) || ts.isPrivateIdentifier(reference)) {
+				// Properties are referenced like this.localize or strings.localize.
+				const parent = reference.parent;
+				const usage = ts.isPropertyAccessExpression(parent) && parent.name === reference ? parent : reference as ts.Expression;
+				trackUsage(usage, reference.text, localizeCalls);
+			}
 		});
-		bundle.messages.push(message);
-		if (comment.length > 0) {
-			bundle.keys.push({
-				key: key,
-				comment: comment
-			});
+	}
+
+	function trackUsage(usage: ts.Expression, boundTo: string, localizeCalls: ts.CallExpression[]): void {
+		const parent = usage.parent;
+		if (ts.isCallExpression(parent) && parent.expression === usage) {
+			// We have something like localize('key', 'message');
+			if (parent.arguments.length >= 2) {
+				if (localizeCalls.indexOf(parent) < 0) {
+					localizeCalls.push(parent);
+				}
+			} else {
+				reportUnusualUsage(usage, boundTo, 'called with less than two arguments');
+			}
+		} else if (ts.isParenthesizedExpression(parent) || ts.isAsExpression(parent) || ts.isTypeAssertionExpression(parent) || ts.isNonNullExpression(parent)) {
+			trackUsage(parent, boundTo, localizeCalls);
+		} else if (ts.isVariableDeclaration(parent) && parent.initializer === usage && ts.isIdentifier(parent.name)) {
+			// We have something like var localize = nls.loadMessageBundle(); or const l = localize;
+			trackBinding(parent.name, localizeCalls);
+		} else if ((ts.isPropertyDeclaration(parent) || ts.isPropertyAssignment(parent)) && parent.initializer === usage) {
+			// We have something like a class field or { localize: localize }.
+			trackBinding(parent.name, localizeCalls);
+		} else if (ts.isShorthandPropertyAssignment(parent)) {
+			// We have something like { localize }.
+			trackBinding(parent.name, localizeCalls);
+		} else if (ts.isBindingElement(parent) && parent.propertyName === usage && ts.isIdentifier(parent.name)) {
+			// We have something like const { localize: l } = require('./nls');
+			trackBinding(parent.name, localizeCalls);
+		} else if (ts.isBinaryExpression(parent) && parent.operatorToken.kind === ts.SyntaxKind.EqualsToken && parent.right === usage) {
+			// We have something like this.localize = localize; or exports.localize = localize;
+			const left = parent.left;
+			if (ts.isIdentifier(left)) {
+				trackBinding(left, localizeCalls);
+			} else if (ts.isPropertyAccessExpression(left)) {
+				trackBinding(left.name, localizeCalls);
+			} else {
+				reportUnusualUsage(usage, boundTo, 'assigned to a destructuring pattern');
+			}
+		} else if (ts.isCallExpression(parent)) {
+			// We have something like helper(localize); where the helper is declared in the analyzed files.
+			const parameter = findParameter(parent, parent.arguments.indexOf(usage));
+			if (parameter) {
+				trackBinding(parameter.name, localizeCalls);
+			} else {
+				reportUnusualUsage(usage, boundTo, `passed to ${parent.expression.getText()}, which is not a function of the analysed files`);
+			}
+		} else if (ts.isExportSpecifier(parent) || ts.isExportAssignment(parent) || ts.isImportSpecifier(parent) || ts.isImportClause(parent)
+			|| ts.isExpressionStatement(parent) || ts.isTypeQueryNode(parent)) {
+			// Exported and imported bindings are followed by the references, types and unused values need no tracking.
 		} else {
-			bundle.keys.push(key);
+			reportUnusualUsage(usage, boundTo, describeConstruct(parent));
 		}
-		messageIndex++;
-		return memo;
-	}, { patches });
-
-	return {
-		patches,
-		errors,
-		bundle
-	};
-}
-
-export function processFile(contents: string, relativeFileName: string | undefined, sourceMap?: string | RawSourceMap): { contents: string | undefined, sourceMap: string | undefined, bundle: JavaScriptMessageBundle | undefined, errors: string[] } {
+	}
 
-	const analysisResult = analyze(contents, relativeFileName);
-	if (analysisResult.patches.length === 0) {
+	/**
+	 * Returns the span of a statement including its indentation and line break,
+	 * if it is the only content of its lines.
+	 */
+	function getStatementSpan(statement: ts.Node): Span {
+		const sourceFile = statement.getSourceFile();
+		const text = sourceFile.text;
+		let start = statement.getStart();
+		let end = statement.end;
+		const lineStart = text.lastIndexOf('\n', start - 1) + 1;
+		const lineEnd = /^[ \t]*(?:\r?\n|$)/.exec(text.substring(end));
+		if (/^[ \t]*$/.test(text.substring(lineStart, start)) && lineEnd) {
+			start = lineStart;
+			end += lineEnd[0].length;
+		}
 		return {
-			contents: undefined,
-			sourceMap: undefined,
-			bundle: undefined,
-			errors: analysisResult.errors
+			start: ts.getLineAndCharacterOfPosition(sourceFile, start),
+			end: ts.getLineAndCharacterOfPosition(sourceFile, end)
 		};
 	}
-	let rawSourceMap: RawSourceMap | undefined = undefined;
-	if (isString(sourceMap)) {
-		try {
-			rawSourceMap = JSON.parse(sourceMap);
-		} catch (e) {
-		}
-	} else if (sourceMap) {
-		rawSourceMap = sourceMap;
+
+	function removeStatement(statement: ts.Node): void {
+		const span = getStatementSpan(statement);
+		resultOf(statement).patches.push({ span, content: '' });
+		removedStatements.push(statement);
 	}
 
-	const textModel = new TextModel(contents, rawSourceMap);
-	textModel.apply(analysisResult.patches);
+	function isRemoved(node: ts.Node): boolean {
+		return removedStatements.some(statement => statement.getSourceFile() === node.getSourceFile()
+			&& statement.getStart() <= node.getStart() && node.end <= statement.end);
+	}
 
-	return {
-		contents: textModel.toString(),
-		sourceMap: textModel.generateSourceMap(),
-		bundle: analysisResult.bundle,
-		errors: analysisResult.errors
-	};
-}
+	/**
+	 * Returns the statement declaring only the specified variable, which can be removed.
+	 */
+	function getVariableStatement(declaration: ts.Node): ts.VariableStatement | undefined {
+		const list = declaration.parent;
+		return ts.isVariableDeclaration(declaration) && ts.isVariableDeclarationList(list) && list.declarations.length === 1 && ts.isVariableStatement(list.parent)
+			? list.parent : undefined;
+	}
 
-function stripComments(content: string): string {
 	/**
-	* First capturing group matches double quoted string
+	 * Replaces the function, the key and the separators of the arguments of a localize call,
+	 * so that the formatting of the arguments is kept and nested calls can be migrated too.
+	 */
+	function migrateCall(localizeCall: ts.CallExpression, comment: ts.Expression | undefined): void {
+		const sourceFile = localizeCall.getSourceFile();
+		const patches = resultOf(localizeCall).patches;
+		const [keyArg, messageArg, ...args] = localizeCall.arguments;
+		const replace = (start: number, end: number, content: string) => patches.push({
+			span: { start: ts.getLineAndCharacterOfPosition(sourceFile, start), end: ts.getLineAndCharacterOfPosition(sourceFile, end) },
+			content
+		});
+		patches.push({ span: getSpan(localizeCall.expression), content: `${l10n}.t` });
+		if (comment) {
+			// The call ends with the closing parenthesis.
+			const lastArg = args.length > 0 ? args[args.length - 1] : messageArg;
+			replace(keyArg.getStart(), messageArg.getStart(), '{ message: ');
+			if (args.length > 0) {
+				replace(messageArg.end, args[0].getStart(), ', args: [');
+			}
+			replace(lastArg.end, localizeCall.end - 1, `${args.length > 0 ? ']' : ''}, comment: ${comment.getText()} }`);
+		} else {
+			replace(keyArg.getStart(), messageArg.getStart(), '');
+		}
+		migratedCalls.add(localizeCall);
+	}
+
+	/**
+	 * Removes the load calls and imports of vscode-nls, if all localize calls were migrated.
+	 */
+	function removeSetup(imports: ts.Node[], loadCalls: ts.CallExpression[], configCalls: ts.CallExpression[]): void {
+		let keptLoadCalls = false;
+		loadCalls.forEach(loadCall => {
+			const parent = loadCall.parent;
+			const statement = getVariableStatement(parent);
+			// Exported localize functions are kept for the importing modules.
+			const exported = statement && statement.modifiers && statement.modifiers.some(modifier => modifier.kind === ts.SyntaxKind.ExportKeyword);
+			if (statement && !exported && ts.isIdentifier((parent as ts.VariableDeclaration).name)) {
+				const references = getReferenceNodes((parent as ts.VariableDeclaration).name);
+				if (references.every(reference => ts.isCallExpression(reference.parent) && migratedCalls.has(reference.parent))) {
+					removeStatement(statement);
+					return;
+				}
+			} else if (ts.isExpressionStatement(parent)) {
+				removeStatement(parent);
+				return;
+			}
+			keptLoadCalls = true;
+			report(loadCall, loadCall.getStart(), `${loadCall.getText()} is kept, because the localize function is ${exported ? 'exported' : 'not used only by the migrated calls'}.`, 'warning');
+		});
+		// The configuration is needed by the localize functions, which are kept.
+		if (!keptLoadCalls) {
+			configCalls.forEach(configCall => removeStatement(configCall.parent));
+		}
+		imports.forEach(node => {
+			let statement: ts.Node | undefined;
+			const names: ts.Node[] = [];
+			if (ts.isImportDeclaration(node)) {
+				statement = node;
+				const importClause = node.importClause;
+				if (importClause) {
+					if (importClause.name) {
+						names.push(importClause.name);
+					}
+					const namedBindings = importClause.namedBindings;
+					if (namedBindings) {
+						if (ts.isNamespaceImport(namedBindings)) {
+							names.push(namedBindings.name);
+						} else {
+							namedBindings.elements.forEach(element => names.push(element.name));
+						}
+					}
+				}
+			} else if (ts.isImportEqualsDeclaration(node)) {
+				statement = node;
+				names.push(node.name);
+			} else {
+				const declaration = skipInteropWrappers(node);
+				statement = getVariableStatement(declaration);
+				if (statement) {
+					const name = (declaration as ts.VariableDeclaration).name;
+					if (ts.isObjectBindingPattern(name)) {
+						name.elements.forEach(element => names.push(element.name));
+					} else {
+						names.push(name);
+					}
+				}
+			}
+			if (statement && !isRemoved(statement) && names.every(name => getReferenceNodes(name).every(isRemoved))) {
+				removeStatement(statement);
+			}
+		});
+	}
+
+	/**
+	 * Checks, if the statement belongs to the directive prologue or imports a module.
+	 */
+	function isLeadingStatement(statement: ts.Statement): boolean {
+		if (ts.isExpressionStatement(statement)) {
+			return ts.isStringLiteral(statement.expression);
+		}
+		if (ts.isVariableStatement(statement)) {
+			// We have something like const fs = require('fs');
+			return statement.declarationList.declarations.every(declaration => declaration.initializer !== undefined
+				&& ts.isCallExpression(declaration.initializer) && declaration.initializer.expression.getText() === 'require');
+		}
+		return ts.isImportDeclaration(statement) || ts.isImportEqualsDeclaration(statement);
+	}
+
+	/**
+	 * Imports the root of the `vscode.l10n` namespace to the files with migrated calls.
+	 */
+	function addL10nImports(): void {
+		if (!l10n || l10n.split('.')[0] !== 'vscode') {
+			return;
+		}
+		const sourceFiles = new Set<ts.SourceFile>();
+		migratedCalls.forEach(call => sourceFiles.add(call.getSourceFile()));
+		sourceFiles.forEach(sourceFile => {
+			if (/\bimport\s+(?:\*\s+as\s+)?vscode\s*(?:from|=\s*require\()\s*['"]vscode['"]|\bvscode\s*=\s*require\(\s*['"]vscode['"]\s*\)/.test(sourceFile.text)) {
+				return;
+			}
+			const statements = sourceFile.statements;
+			const isModule = statements.some(statement => ts.isImportDeclaration(statement));
+			let content = (isModule ? 'import * as vscode from \'vscode\';' : 'const vscode = require(\'vscode\');') + '\n';
+			// The import is inserted after the directive prologue, like 'use strict', and the other imports.
+			let leadingStatements = 0;
+			while (leadingStatements < statements.length && isLeadingStatement(statements[leadingStatements])) {
+				leadingStatements++;
+			}
+			let offset: number;
+			if (leadingStatements > 0) {
+				const lineEnd = sourceFile.text.indexOf('\n', statements[leadingStatements - 1].end);
+				offset = lineEnd >= 0 ? lineEnd + 1 : sourceFile.text.length;
+				if (lineEnd < 0) {
+					content = '\n' + content;
+				}
+			} else {
+				offset = statements[0].getStart();
+			}
+			const start = ts.getLineAndCharacterOfPosition(sourceFile, offset);
+			const patches = resultOf(sourceFile).patches;
+			// A patch starting at the same position gets the import prepended, otherwise the patches would overlap.
+			const following = patches.find(patch => patch.span.start.line === start.line && patch.span.start.character === start.character);
+			if (following) {
+				following.content = content + following.content;
+			} else {
+				patches.push({ span: { start, end: start }, content });
+			}
+		});
+	}
+
+	function analyzeFile(sourceFile: ts.SourceFile): void {
+		// all imports
+		const imports = collect(sourceFile, n => isRequireImport(n) || isImportNode(n) ? CollectStepResult.YesAndRecurse : CollectStepResult.NoAndRecurse);
+
+		// References to the factory methods, like nls.loadMessageBundle or an imported config.
+		const factoryReferences = imports.reduce<{ expression: ts.Expression, name: string }[]>((memo, node) => {
+			let namespaceName: ts.Node | undefined;
+			const importedNames: { local: ts.Node, imported: string }[] = [];
+
+			if (ts.isCallExpression(node)) {
+				const parent = skipInteropWrappers(node);
+				if (ts.isVariableDeclaration(parent)) {
+					if (ts.isIdentifier(parent.name)) {
+						namespaceName = parent.name;
+					} else if (ts.isObjectBindingPattern(parent.name)) {
+						// We have something like const { loadMessageBundle, config: nlsConfig } = require('vscode-nls');
+						parent.name.elements.forEach(element => {
+							const propertyName = element.propertyName || element.name;
+							if (ts.isIdentifier(element.name) && !element.dotDotDotToken && (ts.isIdentifier(propertyName) || ts.isStringLiteral(propertyName))) {
+								importedNames.push({ local: element.name, imported: propertyName.text });
+							}
+						});
+					}
+				}
+			} else if (ts.isImportDeclaration(node) && node.importClause && node.importClause.namedBindings) {
+				const namedBindings = node.importClause.namedBindings;
+				if (ts.isNamespaceImport(namedBindings)) {
+					namespaceName = namedBindings.name;
+				} else {
+					// We have something like import { loadMessageBundle, config as nlsConfig } from 'vscode-nls';
+					namedBindings.elements.forEach(element => {
+						importedNames.push({ local: element.name, imported: (element.propertyName || element.name).text });
+					});
+				}
+			} else if (ts.isImportEqualsDeclaration(node)) {
+				namespaceName = node.name;
+			}
+
+			if (namespaceName) {
+				getReferenceNodes(namespaceName).forEach(reference => {
+					// We are looking for nls.loadMessageBundle || nls.config. In the AST
+					// this is Identifier -> PropertyAccess.
+					const parent = reference.parent;
+					if (ts.isIdentifier(reference) && ts.isPropertyAccessExpression(parent) && parent.expression === reference) {
+						memo.push({ expression: parent, name: parent.name.text });
+					}
+				});
+			}
+			importedNames.forEach(({ local, imported }) => {
+				getReferenceNodes(local).forEach(reference => {
+					if (ts.isIdentifier(reference)) {
+						memo.push({ expression: reference, name: imported });
+					}
+				});
+			});
+
+			return memo;
+		}, []);
+
+		const configCalls: ts.CallExpression[] = [];
+		const loadCalls = factoryReferences.reduce<ts.CallExpression[]>((memo, { expression, name }) => {
+			const callExpression = getCallOf(expression);
+			if (!callExpression) {
+				return memo;
+			}
+			if (factoryMethods.indexOf(name) >= 0) {
+				// We have a load call like nls.loadMessageBundle();
+				memo.push(callExpression);
+			} else if (name === 'config') {
+				// We have a load call like nls.config({...})();
+				let parent = callExpression.parent;
+				if (ts.isCallExpression(parent) && parent.expression === callExpression) {
+					memo.push(parent);
+				} else if (ts.isExpressionStatement(parent)) {
+					// We have a configuration like nls.config({...}); which is removed by the migration.
+					configCalls.push(callExpression);
+				}
+			}
+			return memo;
+		}, []);
+		if (loadCalls.length === 0) {
+			if (l10n) {
+				removeSetup(imports, [], configCalls);
+			}
+			return;
+		}
+
+		// Follow the localize functions returned by the load calls through the files.
+		const localizeCalls: ts.CallExpression[] = [];
+		loadCalls.forEach(loadCall => trackUsage(loadCall, loadCall.getText(), localizeCalls));
+		// The indexes follow the order of the files and of the calls in them, not the order the references were found in.
+		localizeCalls.sort((call1, call2) => fileOrder(call1) - fileOrder(call2) || call1.getStart() - call2.getStart());
+
+		const result = resultOf(sourceFile);
+		const relativeFilename = getRelativeFilename(sourceFile.fileName);
+		loadCalls.reduce((memo, loadCall) => {
+			if (loadCall.arguments.length === 0 && !l10n) {
+				const args = loadCall.arguments;
+				memo.push({
+					span: { start: ts.getLineAndCharacterOfPosition(sourceFile, args.pos), end: ts.getLineAndCharacterOfPosition(sourceFile, args.end) },
+					content: relativeFilename ? `require('path').join(__dirname, '${relativeFilename.replace(/\\/g, '\\\\')}')` : '__filename',
+				});
+			}
+			return memo;
+		}, result.patches);
+
+		const bundle: JavaScriptMessageBundle = result.bundle = { messages: [], keys: [] };
+		const usedKeys: Map<{ index: number, call: ts.CallExpression }> = Object.create(null);
+		const previousKeyOrder = getKeyOrder(sourceFile.fileName);
+		const keyOrder = previousKeyOrder ? previousKeyOrder.slice() : undefined;
+		const usedSlots = new Set<number>();
+		let messageIndex = 0;
+
+		function takeSlot(key: string): number {
+			if (!keyOrder) {
+				return messageIndex++;
+			}
+			let slot = keyOrder.findIndex((slotKey, index) => slotKey === key && !usedSlots.has(index));
+			if (slot < 0) {
+				slot = keyOrder.push(key) - 1;
+			}
+			usedSlots.add(slot);
+			return slot;
+		}
+		localizeCalls.forEach(localizeCall => {
+			const firstArg = localizeCall.arguments[0];
+			const secondArg = localizeCall.arguments[1];
+			let key: string | null = null;
+			let message: string | undefined;
+			let comment: string[] = [];
+			let commentNode: ts.Expression | undefined;
+			if (ts.isStringLiteralLike(firstArg)) {
+				key = firstArg.text;
+			} else if (ts.isObjectLiteralExpression(firstArg)) {
+				for (let i = 0; i < firstArg.properties.length; i++) {
+					const property = firstArg.properties[i];
+					if (ts.isPropertyAssignment(property)) {
+						const name = property.name.getText();
+						if (name === 'key') {
+							const initializer = property.initializer;
+							if (ts.isStringLiteralLike(initializer)) {
+								key = initializer.text;
+							}
+						} else if (name === 'comment') {
+							const initializer = property.initializer;
+							commentNode = initializer;
+							if (ts.isArrayLiteralExpression(initializer)) {
+								initializer.elements.forEach(element => {
+									if (ts.isStringLiteralLike(element)) {
+										comment.push(element.text);
+									}
+								});
+							}
+						}
+					}
+				}
+			}
+			if (!key) {
+				reportError(firstArg, firstArg.pos, 'first argument of a localize call must either be a string literal or an object literal of type LocalizeInfo.');
+				return;
+			}
+			message = evaluateString(secondArg);
+			if (message === undefined) {
+				reportError(secondArg, secondArg.pos, 'second argument of a localize call must be a string literal.');
+				return;
+			}
+			checkPlaceholders(localizeCall, message);
+			if (l10n) {
+				migrateCall(localizeCall, comment.length > 0 ? commentNode : undefined);
+				return;
+			}
+			// The call may be located in another file than the load call.
+			const callResult = resultOf(localizeCall);
+			let index: number | undefined;
+			const usedKey = usedKeys[key];
+			if (usedKey) {
+				if (bundle.messages[usedKey.index] === message) {
+					index = usedKey.index;
+				} else {
+					const usedCall = usedKey.call;
+					const usedFile = usedCall.getSourceFile();
+					const usedPosition = ts.getLineAndCharacterOfPosition(usedFile, usedCall.getStart());
+					const usedIn = usedFile === localizeCall.getSourceFile() ? '' : ` in ${usedFile.fileName}`;
+					report(firstArg, firstArg.pos, `key ${key} is already used with a different message at (${usedPosition.line + 1},${usedPosition.character + 1})${usedIn}.`, duplicateSeverity);
+					// The bundle can hold only one message for a key, the first one is kept.
+					if (duplicateSeverity !== 'error') {
+						index = usedKey.index;
+					}
+				}
+			}
+			const newKey = index === undefined;
+			if (index === undefined) {
+				index = takeSlot(key);
+				if (!usedKey) {
+					usedKeys[key] = { index, call: localizeCall };
+				}
+			}
+			callResult.calls.push({
+				key,
+				message,
+				comment: comment.length > 0 ? comment : undefined,
+				index,
+				position: ts.getLineAndCharacterOfPosition(localizeCall.getSourceFile(), localizeCall.getStart())
+			});
+			const patches = callResult.patches;
+			patches.push({
+				span: getSpan(firstArg),
+				content: index.toString()
+			});
+			patches.push({
+				span: getSpan(secondArg),
+				content: 'null'
+			});
+			if (!newKey) {
+				return;
+			}
+			bundle.messages[index] = message;
+			if (comment.length > 0) {
+				bundle.keys[index] = {
+					key: key,
+					comment: comment
+				};
+			} else {
+				bundle.keys[index] = key;
+			}
+		});
+
+		if (l10n) {
+			removeSetup(imports, loadCalls, configCalls);
+			result.bundle = undefined;
+			return;
+		}
+
+		if (keyOrder) {
+			// Leave tombstones for the removed keys to keep the indexes of the following ones.
+			for (let i = 0; i < keyOrder.length; i++) {
+				if (!usedSlots.has(i)) {
+					keyOrder[i] = null;
+					bundle.messages[i] = '';
+					bundle.keys[i] = '';
+				}
+			}
+			result.keyOrder = keyOrder;
+		}
+	}
+
+	const program = service.getProgram()!;
+	const results: Map<AnalysisResult> = Object.create(null);
+	const trackedNames = new Set<ts.Node>();
+	const rejectedUsages = new Set<ts.Node>();
+	const migratedCalls = new Set<ts.CallExpression>();
+	const removedStatements: ts.Node[] = [];
+
+	filenames.forEach(filename => results[filename] = { patches: [], errors: [], warnings: [], calls: [] });
+	filenames.forEach(filename => analyzeFile(program.getSourceFile(filename)!));
+	addL10nImports();
+	return results;
+}
+
+export interface ProcessFileResult {
+	contents: string | undefined;
+	sourceMap: string | undefined;
+	bundle: JavaScriptMessageBundle | undefined;
+	errors: string[];
+	/**
+	 * Problems reported with the severity `warning`, which do not fail the processing.
+	 */
+	warnings: string[];
+	/**
+	 * The updated order of the keys, if `keyOrder` was passed and the file loads a message bundle.
+	 */
+	keyOrder?: (string | null)[];
+}
+
+/**
+ * Rewrites the localize calls in the source and returns the message bundle.
+ * The source map can be a plain or an indexed one. If it is not specified,
+ * an inline `data:` source map is read from the source and the updated one
+ * is inlined to the result.
+ */
+export function processFile(contents: string, relativeFileName: string | undefined, sourceMap?: string | SourceMap, options?: ProcessFileOptions): ProcessFileResult {
+	return applyAnalysis(contents, analyze(contents, relativeFileName, options), sourceMap);
+}
+
+/**
+ * Extracts localize calls from a source without rewriting it, for example to check
+ * TypeScript sources in a linter before they are compiled. The reported positions
+ * refer to the specified source.
+ */
+export function extractLocalizeCalls(contents: string, fileName: string, options?: ProcessFileOptions): { calls: LocalizeCallInfo[], bundle: JavaScriptMessageBundle | undefined, errors: string[], warnings: string[] } {
+	const analysisResult = analyze(contents, undefined, Object.assign({}, options, { fileName }));
+	return {
+		calls: analysisResult.calls,
+		bundle: analysisResult.bundle,
+		errors: analysisResult.errors,
+		warnings: analysisResult.warnings
+	};
+}
+
+export interface ProjectFile {
+	/**
+	 * The path of the file, which is used to resolve relative imports between the project files.
+	 */
+	fileName: string;
+	contents: string;
+	sourceMap?: string | SourceMap;
+	/**
+	 * The file name to inline in the load calls, see `processFile`.
+	 */
+	relativeFileName?: string;
+	/**
+	 * Order of the keys in the message bundle of the file, see `keyOrder` of `processFile`.
+	 * The option `keyOrder` passed to `processProject` is ignored.
+	 */
+	keyOrder?: (string | null)[];
+}
+
+/**
+ * Processes files of a project together, following localize functions exported
+ * from one file and imported in the others, like `export const localize = nls.loadMessageBundle()`
+ * in a shared `nls.js`. Calls of an imported localize function are rewritten to use
+ * indexes to the message bundle of the file, which loaded it, because the run-time
+ * looks the messages up there. The results are returned in the order of the files.
+ */
+export function processProject(files: ProjectFile[], options?: ProcessFileOptions): ProcessFileResult[] {
+	const fileNames = files.map(file => file.fileName.replace(/\\/g, '/'));
+	const relativeFileNames: Map<string | undefined> = Object.create(null);
+	const keyOrders: Map<(string | null)[] | undefined> = Object.create(null);
+	const serviceHost = new ProjectServiceHost({
+		allowJs: true,
+		moduleResolution: ts.ModuleResolutionKind.NodeJs
+	}, files.map((file, index) => {
+		relativeFileNames[fileNames[index]] = file.relativeFileName;
+		keyOrders[fileNames[index]] = file.keyOrder;
+		return { fileName: fileNames[index], contents: file.contents };
+	}));
+	const service = ts.createLanguageService(serviceHost);
+	const analysisResults = analyzeFiles(service, fileNames, fileName => relativeFileNames[fileName], fileName => keyOrders[fileName], options || {});
+	return files.map((file, index) => applyAnalysis(file.contents, analysisResults[fileNames[index]], file.sourceMap));
+}
+
+export interface MigrationOptions {
+	/**
+	 * Module specifiers of the run-time modules, see `modules` of `processFile`.
+	 */
+	modules?: string[];
+	/**
+	 * Names of factory methods returning a localize function, see `factoryMethods` of `processFile`.
+	 */
+	factoryMethods?: string[];
+	/**
+	 * Namespace of the l10n API, `vscode.l10n` by default. If it starts with `vscode`,
+	 * the `vscode` module is imported to the files, which do not import it yet.
+	 */
+	l10n?: string;
+}
+
+export interface MigrationResult {
+	/**
+	 * The migrated source or `undefined`, if the source contains no localize calls.
+	 */
+	contents: string | undefined;
+	/**
+	 * Localize calls and usages of localize functions, which could not be migrated.
+	 */
+	errors: string[];
+	warnings: string[];
+}
+
+/**
+ * Migrates localize calls of vscode-nls in the project files to the `vscode.l10n` API, like
+ * `localize('key', 'Hello {0}', name)` to `vscode.l10n.t('Hello {0}', name)`. Calls with comments
+ * are migrated to `vscode.l10n.t({ message, args, comment })`. Load calls and imports of vscode-nls
+ * are removed, if all localize calls using them were migrated. The rest of the sources is kept intact.
+ */
+export function migrateToL10n(files: { fileName: string, contents: string }[], options: MigrationOptions = {}): MigrationResult[] {
+	const fileNames = files.map(file => file.fileName.replace(/\\/g, '/'));
+	const serviceHost = new ProjectServiceHost({
+		allowJs: true,
+		moduleResolution: ts.ModuleResolutionKind.NodeJs
+	}, files.map((file, index) => ({ fileName: fileNames[index], contents: file.contents })));
+	const service = ts.createLanguageService(serviceHost);
+	const analysisOptions: AnalysisOptions = { modules: options.modules, factoryMethods: options.factoryMethods, l10n: options.l10n || 'vscode.l10n' };
+	const analysisResults = analyzeFiles(service, fileNames, () => undefined, () => undefined, analysisOptions);
+	return files.map((file, index) => {
+		const analysisResult = analysisResults[fileNames[index]];
+		let contents: string | undefined;
+		if (analysisResult.patches.length > 0) {
+			const textModel = new TextModel(file.contents);
+			textModel.apply(analysisResult.patches);
+			contents = textModel.toString();
+		}
+		return { contents, errors: analysisResult.errors, warnings: analysisResult.warnings };
+	});
+}
+
+export interface LocalizeTransformerOptions extends ProcessFileOptions {
+	/**
+	 * The root directory of the sources. If set, the file names relative to it are inlined
+	 * in the load calls, like `relativeFileName` of `processFile` does. Otherwise `__filename`
+	 * is used.
+	 */
+	rootDir?: string;
+}
+
+/**
+ * Creates a TypeScript transformer, which rewrites localize calls like `rewriteLocalizeCalls`
+ * does, when the sources are emitted by `ts.Program.emit`, ts-loader or other compilers
+ * accepting custom transformers. The message bundle of every source file is passed to
+ * the callback together with the errors and warnings, so that it can be added to a `MetaDataBundler`
+ * or written to a `.nls.metadata.json` file. Files with errors are not transformed.
+ */
+export function createLocalizeTransformer(callback: (fileName: string, bundle: JavaScriptMessageBundle | undefined, errors: string[], warnings: string[]) => void, options: LocalizeTransformerOptions = {}): ts.TransformerFactory<ts.SourceFile> {
+	return (context: ts.TransformationContext) => {
+		const factory = context.factory;
+
+		return (sourceFile: ts.SourceFile) => {
+			// The load calls have to refer to the emitted JavaScript files.
+			const relativeFilename = options.rootDir
+				? path.relative(options.rootDir, sourceFile.fileName).replace(/\.([mc]?)tsx?$/, '.$1js')
+				: undefined;
+			const analysisResult = analyze(sourceFile.text, relativeFilename, Object.assign({}, options, { fileName: sourceFile.fileName, keyOrder: undefined }));
+			callback(sourceFile.fileName, analysisResult.bundle, analysisResult.errors, analysisResult.warnings);
+			if (analysisResult.errors.length > 0 || analysisResult.patches.length === 0) {
+				return sourceFile;
+			}
+
+			// The analysis parsed the same text, so that the patches can be located by the offsets.
+			const loadCallArguments = new Set<number>();
+			const replacements: Map<string> = Object.create(null);
+			analysisResult.patches.forEach(patch => {
+				const start = sourceFile.getPositionOfLineAndCharacter(patch.span.start.line, patch.span.start.character);
+				const end = sourceFile.getPositionOfLineAndCharacter(patch.span.end.line, patch.span.end.character);
+				if (start === end) {
+					loadCallArguments.add(start);
+				} else {
+					replacements[`${start}:${end}`] = patch.content;
+				}
+			});
+
+			function createFilename(): ts.Expression {
+				if (!relativeFilename) {
+					return factory.createIdentifier('__filename');
+				}
+				const requirePath = factory.createCallExpression(factory.createIdentifier('require'), undefined, [factory.createStringLiteral('path')]);
+				return factory.createCallExpression(factory.createPropertyAccessExpression(requirePath, 'join'), undefined,
+					[factory.createIdentifier('__dirname'), factory.createStringLiteral(relativeFilename)]);
+			}
+
+			function visit(node: ts.Node): ts.Node {
+				if (node.pos >= 0) {
+					if (ts.isCallExpression(node) && node.arguments.length === 0 && loadCallArguments.has(node.arguments.pos)) {
+						return factory.updateCallExpression(node, ts.visitNode(node.expression, visit), node.typeArguments, [createFilename()]);
+					}
+					const replacement = replacements[`${node.getStart(sourceFile)}:${node.end}`];
+					if (replacement !== undefined) {
+						return replacement === 'null' ? factory.createNull() : factory.createNumericLiteral(replacement);
+					}
+				}
+				return ts.visitEachChild(node, visit, context);
+			}
+
+			return ts.visitNode(sourceFile, visit);
+		};
+	};
+}
+
+function applyAnalysis(contents: string, analysisResult: AnalysisResult, sourceMap?: string | SourceMap): ProcessFileResult {
+	if (analysisResult.patches.length === 0) {
+		return {
+			contents: undefined,
+			sourceMap: undefined,
+			bundle: analysisResult.bundle,
+			errors: analysisResult.errors,
+			warnings: analysisResult.warnings,
+			keyOrder: analysisResult.keyOrder
+		};
+	}
+	let inlineSourceMap = false;
+	if (!sourceMap) {
+		const match = inlineSourceMapRegExp.exec(contents);
+		if (match) {
+			sourceMap = Buffer.from(match[2], 'base64').toString('utf8');
+			inlineSourceMap = true;
+		}
+	}
+	let rawSourceMap: SourceMap | undefined = undefined;
+	if (isString(sourceMap)) {
+		try {
+			rawSourceMap = JSON.parse(sourceMap);
+		} catch (e) {
+		}
+	} else if (sourceMap) {
+		rawSourceMap = sourceMap;
+	}
+
+	const textModel = new TextModel(contents, rawSourceMap);
+	textModel.apply(analysisResult.patches);
+
+	let newContents = textModel.toString();
+	const newSourceMap = textModel.generateSourceMap();
+	if (inlineSourceMap && newSourceMap) {
+		newContents = newContents.replace(inlineSourceMapRegExp, (_match, prefix) => prefix + Buffer.from(newSourceMap, 'utf8').toString('base64'));
+	}
+	return {
+		contents: newContents,
+		sourceMap: newSourceMap,
+		bundle: analysisResult.bundle,
+		errors: analysisResult.errors,
+		warnings: analysisResult.warnings,
+		keyOrder: analysisResult.keyOrder
+	};
+}
+
+function stripComments(content: string): string {
+	/**
+	* First capturing group matches double quoted string
 	* Second matches single quotes string
 	* Third matches block comments
 	* Fourth matches line comments
@@ -721,7 +1649,9 @@ export function resolveMessageBundle(bundle: JavaScriptMessageBundle | PackageJs
 		bundle.keys.forEach((key, index) => {
 			const resolvedKey = isString(key) ? key : key.key;
 			keys.push(resolvedKey);
-			map[resolvedKey] = bundle.messages[index];
+			if (resolvedKey !== '') {
+				map[resolvedKey] = bundle.messages[index];
+			}
 		});
 		return { messages: bundle.messages, keys: keys, map };
 	} else {
@@ -731,46 +1661,510 @@ export function resolveMessageBundle(bundle: JavaScriptMessageBundle | PackageJs
 
 export interface LocalizedMessagesResult {
 	messages: string[] | Map<String>;
-	problems: string[];
+	problems: Problem[];
 }
 
-export function createLocalizedMessages(filename: string, bundle: ResolvedJavaScriptMessageBundle | PackageJsonMessageBundle, languageFolderName: string, i18nBaseDir: string, baseDir?: string): LocalizedMessagesResult {
-	const problems: string[] = [];
-	const i18nFile = (baseDir
+function getI18nFile(filename: string, languageFolderName: string, i18nBaseDir: string, baseDir?: string): string {
+	return (baseDir
 		? path.join(i18nBaseDir, languageFolderName, baseDir, filename)
 		: path.join(i18nBaseDir, languageFolderName, filename)) + '.i18n.json';
+}
+
+export interface LocalizedMessagesOptions {
+	/**
+	 * Replaces translations with placeholders not matching the original messages by the
+	 * original messages. The mismatches are reported as warnings instead of errors.
+	 */
+	fallbackOnMismatch?: boolean;
+	/**
+	 * Folder names of the languages to take the missing translations from, in the specified
+	 * order, before the original messages are used. If the message file of the language is
+	 * missing, only the file is reported, not the single messages.
+	 */
+	fallbackFolderNames?: string[];
+}
+
+/**
+ * Reads the translated messages of a bundle for a language. Problems like missing messages
+ * or placeholders not matching the original messages are reported.
+ */
+export function createLocalizedMessages(filename: string, bundle: ResolvedJavaScriptMessageBundle | PackageJsonMessageBundle, languageFolderName: string, i18nBaseDir: string, baseDir?: string,
+	options: LocalizedMessagesOptions = {}): LocalizedMessagesResult {
+	const fallbackOnMismatch = options.fallbackOnMismatch || false;
+	const fallbackFolderNames = options.fallbackFolderNames || [];
+	const problems: Problem[] = [];
+	const i18nFile = getI18nFile(filename, languageFolderName, i18nBaseDir, baseDir);
+	const relativeI18nFile = i18nFile.substr(i18nBaseDir.length + 1);
 
 	let messages: Map<string> | undefined;
-	let bundleLength = ResolvedJavaScriptMessageBundle.is(bundle) ? bundle.keys.length : Object.keys(bundle).length;
+	let bundleLength = ResolvedJavaScriptMessageBundle.is(bundle) ? bundle.keys.filter(key => key !== '').length : Object.keys(bundle).length;
 	if (fs.existsSync(i18nFile)) {
 		const content = stripComments(fs.readFileSync(i18nFile, 'utf8'));
 		messages = JSON.parse(content) as Map<string>;
 		if (Object.keys(messages).length === 0) {
 			if (bundleLength > 0) {
-				problems.push(`Message file ${i18nFile.substr(i18nBaseDir.length + 1)} is empty. Missing messages: ${bundleLength}`);
+				problems.push({ code: 'empty-file', severity: 'warning', message: `Message file ${relativeI18nFile} is empty. Missing messages: ${bundleLength}` });
 			}
 			messages = undefined;
 		}
 	} else {
 		if (bundleLength > 0) {
-			problems.push(`Message file ${i18nFile.substr(i18nBaseDir.length + 1)} not found. Missing messages: ${bundleLength}`);
+			problems.push({ code: 'missing-file', severity: 'warning', message: `Message file ${relativeI18nFile} not found. Missing messages: ${bundleLength}` });
+		}
+	}
+
+	// The missing or empty file is reported instead of its messages.
+	const fileMissing = messages === undefined;
+	if (fallbackFolderNames.length > 0) {
+		const keys = ResolvedJavaScriptMessageBundle.is(bundle) ? bundle.keys.filter(key => key !== '') : Object.keys(bundle);
+		const merged: Map<string> = Object.assign(Object.create(null), messages);
+		fallbackFolderNames.forEach(fallbackFolderName => {
+			const fallbackFile = getI18nFile(filename, fallbackFolderName, i18nBaseDir, baseDir);
+			if (!fs.existsSync(fallbackFile)) {
+				return;
+			}
+			const fallbackMessages = JSON.parse(stripComments(fs.readFileSync(fallbackFile, 'utf8'))) as Map<string>;
+			keys.forEach(key => {
+				if (merged[key] === undefined && fallbackMessages[key] !== undefined) {
+					merged[key] = fallbackMessages[key];
+					if (!fileMissing) {
+						problems.push({ code: 'fallback-message', severity: 'warning', key, message: `Localized message for key ${key} taken from '${fallbackFolderName}'` });
+					}
+				}
+			});
+		});
+		if (Object.keys(merged).length > 0) {
+			messages = merged;
 		}
 	}
 
 	let translatedMessages: string[] | Map<string>;
+	const messageProblems: Problem[] = [];
 
 	if (ResolvedJavaScriptMessageBundle.is(bundle)) {
-		translatedMessages = ResolvedJavaScriptMessageBundle.asTranslatedMessages(bundle, messages, problems);
+		translatedMessages = ResolvedJavaScriptMessageBundle.asTranslatedMessages(bundle, messages, messageProblems, fallbackOnMismatch);
 	} else {
-		translatedMessages = PackageJsonMessageBundle.asTranslatedMessages(bundle, messages, problems);
-	}
-	if (problems.length > 0) {
-		problems.unshift(`Generating localized messages for '${languageFolderName}' resulted in the following problems:`, '');
-		problems.push('', '');
+		translatedMessages = PackageJsonMessageBundle.asTranslatedMessages(bundle, messages, messageProblems, fallbackOnMismatch);
 	}
+	problems.push(...messageProblems.filter(problem => !fileMissing || problem.code !== 'missing-message'));
+	problems.forEach(problem => {
+		problem.language = languageFolderName;
+		problem.file = relativeI18nFile;
+	});
 	return { messages: translatedMessages, problems };
 }
 
+export interface PseudoLocalizationOptions {
+	/**
+	 * Length of the padding appended to the messages relative to their length, 0.3 by default.
+	 */
+	expansion?: number;
+	/**
+	 * Enclose the messages in brackets to reveal truncated and concatenated texts, true by default.
+	 */
+	brackets?: boolean;
+}
+
+const pseudoCharacters: Map<string> = {
+	a: 'á', b: 'ƀ', c: 'ç', d: 'đ', e: 'é', f: 'ƒ', g: 'ĝ', h: 'ĥ', i: 'î', j: 'ĵ', k: 'ķ', l: 'ĺ', m: 'ɱ',
+	n: 'ñ', o: 'ö', p: 'þ', q: 'ǫ', r: 'ŕ', s: 'š', t: 'ţ', u: 'û', v: 'ṽ', w: 'ŵ', x: 'ẋ', y: 'ý', z: 'ž',
+	A: 'À', B: 'Ɓ', C: 'Ç', D: 'Đ', E: 'É', F: 'Ƒ', G: 'Ĝ', H: 'Ĥ', I: 'Î', J: 'Ĵ', K: 'Ķ', L: 'Ĺ', M: 'Ṁ',
+	N: 'Ñ', O: 'Ö', P: 'Þ', Q: 'Ǫ', R: 'Ř', S: 'Š', T: 'Ţ', U: 'Û', V: 'Ṽ', W: 'Ŵ', X: 'Ẋ', Y: 'Ý', Z: 'Ž'
+};
+
+// Placeholders, mnemonic markers, targets of markdown links and codicons stay intact.
+const pseudoProtectedRegExp = /\{[^{}]*\}|&&|\]\([^()]*\)|\$\([^()]*\)/g;
+
+/**
+ * Accents the characters of the message, pads it and encloses it in brackets, so that
+ * the localizable texts can be recognized and tested in the user interface.
+ */
+export function pseudoLocalize(message: string, options: PseudoLocalizationOptions = {}): string {
+	if (message.length === 0) {
+		return message;
+	}
+	const expansion = options.expansion !== undefined ? options.expansion : 0.3;
+	let result = '';
+	let length = 0;
+	let start = 0;
+	const accent = (text: string) => {
+		length += text.length;
+		return text.replace(/[a-zA-Z]/g, character => pseudoCharacters[character]);
+	};
+	let match: RegExpExecArray | null;
+	pseudoProtectedRegExp.lastIndex = 0;
+	while ((match = pseudoProtectedRegExp.exec(message)) !== null) {
+		result += accent(message.substring(start, match.index)) + match[0];
+		start = match.index + match[0].length;
+	}
+	result += accent(message.substring(start));
+	result += '~'.repeat(Math.ceil(length * expansion));
+	return options.brackets === false ? result : `[${result}]`;
+}
+
+/**
+ * Creates pseudo-localized messages for the bundle in the same format as `createLocalizedMessages`.
+ */
+export function createPseudoLocalizedMessages(bundle: ResolvedJavaScriptMessageBundle | PackageJsonMessageBundle, options: PseudoLocalizationOptions = {}): string[] | Map<string> {
+	if (ResolvedJavaScriptMessageBundle.is(bundle)) {
+		return bundle.messages.map(message => pseudoLocalize(message, options));
+	}
+	const result: Map<string> = Object.create(null);
+	Object.keys(bundle).forEach(key => result[key] = pseudoLocalize(bundle[key], options));
+	return result;
+}
+
+export interface TranslationCoverage {
+	total: number;
+	/**
+	 * Messages found in the message files, excluding the identical and invalid ones.
+	 */
+	translated: number;
+	missing: number;
+	/**
+	 * Translated messages identical to the original ones.
+	 */
+	identical: number;
+	/**
+	 * Translated messages with placeholders or mnemonics not matching the original ones.
+	 */
+	invalid: number;
+	/**
+	 * Percentage of translated messages, rounded to one decimal place. Identical and
+	 * invalid translations are not counted as translated.
+	 */
+	percentage: number;
+}
+
+export interface ModuleCoverage extends TranslationCoverage {
+	module: string;
+}
+
+export interface LanguageCoverage extends TranslationCoverage {
+	language: string;
+	modules: ModuleCoverage[];
+}
+
+function createCoverage(): TranslationCoverage {
+	return { total: 0, translated: 0, missing: 0, identical: 0, invalid: 0, percentage: 100 };
+}
+
+function addCoverage(sum: TranslationCoverage, coverage: TranslationCoverage): void {
+	sum.total += coverage.total;
+	sum.translated += coverage.translated;
+	sum.missing += coverage.missing;
+	sum.identical += coverage.identical;
+	sum.invalid += coverage.invalid;
+	computePercentage(sum);
+}
+
+function computePercentage(coverage: TranslationCoverage): void {
+	coverage.percentage = coverage.total > 0 ? Math.round(coverage.translated * 1000 / coverage.total) / 10 : 100;
+}
+
+/**
+ * Computes how many messages of the bundles are translated to a language. The bundles
+ * are identified by the file names used by `createLocalizedMessages`.
+ */
+export function computeTranslationCoverage(bundles: Map<ResolvedJavaScriptMessageBundle | PackageJsonMessageBundle>, languageFolderName: string, i18nBaseDir: string, baseDir?: string): LanguageCoverage {
+	const result: LanguageCoverage = Object.assign({ language: languageFolderName, modules: [] }, createCoverage());
+	Object.keys(bundles).sort().forEach(filename => {
+		const bundle = bundles[filename];
+		const originals: Map<string> = ResolvedJavaScriptMessageBundle.is(bundle) ? bundle.map : bundle;
+		const i18nFile = getI18nFile(filename, languageFolderName, i18nBaseDir, baseDir);
+		const messages: Map<string> = fs.existsSync(i18nFile) ? JSON.parse(stripComments(fs.readFileSync(i18nFile, 'utf8'))) : {};
+		const coverage: ModuleCoverage = Object.assign({ module: filename }, createCoverage());
+		Object.keys(originals).forEach(key => {
+			coverage.total++;
+			const translated = Object.prototype.hasOwnProperty.call(messages, key) ? messages[key] : undefined;
+			if (translated === undefined) {
+				coverage.missing++;
+				return;
+			}
+			if (translated === originals[key]) {
+				coverage.identical++;
+			} else if (!checkTranslation(key, originals[key], translated, [])) {
+				coverage.invalid++;
+			} else {
+				coverage.translated++;
+			}
+		});
+		computePercentage(coverage);
+		addCoverage(result, coverage);
+		result.modules.push(coverage);
+	});
+	return result;
+}
+
+const coverageColumns: (keyof TranslationCoverage)[] = ['total', 'translated', 'missing', 'identical', 'invalid', 'percentage'];
+
+/**
+ * Formats the coverage of the languages as a plain text table for logging.
+ */
+export function formatCoverageTable(languages: LanguageCoverage[]): string {
+	const rows: string[][] = [['language', 'module'].concat(coverageColumns)];
+	languages.forEach(language => {
+		language.modules.forEach(module => rows.push([language.language, module.module].concat(coverageColumns.map(column => String(module[column])))));
+		rows.push([language.language, '(all)'].concat(coverageColumns.map(column => String(language[column]))));
+	});
+	const widths = rows[0].map((_cell, index) => Math.max(...rows.map(row => row[index].length)));
+	return rows.map(row => row.map((cell, index) => index < 2 ? cell.padEnd(widths[index]) : cell.padStart(widths[index])).join('  ').replace(/\s+$/, '')).join('\n');
+}
+
+/**
+ * Formats the coverage of the languages as a Markdown summary with a table per language.
+ */
+export function formatCoverageMarkdown(languages: LanguageCoverage[]): string {
+	const lines: string[] = ['# Translation Coverage', '', '| Language | Total | Translated | Missing | Identical | Invalid | Coverage |', '| --- | ---: | ---: | ---: | ---: | ---: | ---: |'];
+	const formatRow = (name: string, coverage: TranslationCoverage) =>
+		`| ${name} | ${coverage.total} | ${coverage.translated} | ${coverage.missing} | ${coverage.identical} | ${coverage.invalid} | ${coverage.percentage}% |`;
+	languages.forEach(language => lines.push(formatRow(language.language, language)));
+	languages.forEach(language => {
+		lines.push('', `## ${language.language}`, '', '| Module | Total | Translated | Missing | Identical | Invalid | Coverage |', '| --- | ---: | ---: | ---: | ---: | ---: | ---: |');
+		language.modules.forEach(module => lines.push(formatRow(module.module, module)));
+	});
+	return lines.join('\n') + '\n';
+}
+
+export interface L10nMessage {
+	message: string;
+	comment: string[];
+}
+
+/**
+ * Messages of `bundle.l10n.json` used by the `vscode.l10n` API, keyed by the message text,
+ * or by the message text and the comment separated by `/`, if the message has a comment.
+ */
+export interface L10nBundle {
+	[key: string]: string | L10nMessage;
+}
+
+export interface L10nBundles {
+	bundle: L10nBundle;
+	/**
+	 * Translated messages of `bundle.l10n.<language>.json` for every language folder name.
+	 */
+	translations: Map<Map<string>>;
+	/**
+	 * Messages translated differently in different modules, only the first translation is used.
+	 */
+	conflicts: string[];
+}
+
+export function getL10nKey(message: string, comment?: string[]): string {
+	return comment && comment.length > 0 ? `${message}/${comment.join('')}` : message;
+}
+
+/**
+ * Converts the bundled metadata and the message files of the languages to bundles of
+ * the `vscode.l10n` API. Identical messages of all modules share a single entry.
+ */
+export function createL10nBundles(data: BundledMetaDataFile, languageFolderNames: string[], i18nBaseDir: string, baseDir?: string): L10nBundles {
+	const result: L10nBundles = { bundle: Object.create(null), translations: Object.create(null), conflicts: [] };
+	const origins: Map<Map<string>> = Object.create(null);
+	languageFolderNames.forEach(languageFolderName => {
+		result.translations[languageFolderName] = Object.create(null);
+		origins[languageFolderName] = Object.create(null);
+	});
+	Object.keys(data).sort().forEach(module => {
+		const entry = data[module];
+		const i18nMessages: Map<string>[] = languageFolderNames.map(languageFolderName => {
+			const i18nFile = getI18nFile(module, languageFolderName, i18nBaseDir, baseDir);
+			return fs.existsSync(i18nFile) ? JSON.parse(stripComments(fs.readFileSync(i18nFile, 'utf8'))) : {};
+		});
+		entry.keys.forEach((keyInfo, index) => {
+			const key = KeyInfo.key(keyInfo);
+			// Skip tombstones of removed keys.
+			if (key === '') {
+				return;
+			}
+			const message = entry.messages[index];
+			const comment = KeyInfo.comment(keyInfo);
+			const l10nKey = getL10nKey(message, comment);
+			if (!Object.prototype.hasOwnProperty.call(result.bundle, l10nKey)) {
+				result.bundle[l10nKey] = comment && comment.length > 0 ? { message, comment } : message;
+			}
+			languageFolderNames.forEach((languageFolderName, languageIndex) => {
+				const messages = i18nMessages[languageIndex];
+				if (!Object.prototype.hasOwnProperty.call(messages, key)) {
+					return;
+				}
+				const translations = result.translations[languageFolderName];
+				const origin = `${module} (key ${key})`;
+				if (!Object.prototype.hasOwnProperty.call(translations, l10nKey)) {
+					translations[l10nKey] = messages[key];
+					origins[languageFolderName][l10nKey] = origin;
+				} else if (translations[l10nKey] !== messages[key]) {
+					result.conflicts.push(`Message "${l10nKey}" is translated to '${languageFolderName}' differently in ${origins[languageFolderName][l10nKey]} and ${origin}`);
+				}
+			});
+		});
+	});
+	return result;
+}
+
+/**
+ * Assigns translations of `bundle.l10n.<language>.json` to the keys of the modules in the bundled
+ * metadata, so that they can be written to the message files of the language.
+ */
+export function importL10nTranslations(data: BundledMetaDataFile, translations: Map<string>): Map<Map<string>> {
+	const result: Map<Map<string>> = Object.create(null);
+	Object.keys(data).sort().forEach(module => {
+		const entry = data[module];
+		const messages: Map<string> = {};
+		entry.keys.forEach((keyInfo, index) => {
+			const key = KeyInfo.key(keyInfo);
+			const l10nKey = getL10nKey(entry.messages[index], KeyInfo.comment(keyInfo));
+			if (key !== '' && Object.prototype.hasOwnProperty.call(translations, l10nKey)) {
+				messages[key] = translations[l10nKey];
+			}
+		});
+		if (Object.keys(messages).length > 0) {
+			result[module] = messages;
+		}
+	});
+	return result;
+}
+
+export interface StaleTranslationsResult {
+	/**
+	 * Message files of modules, which do not exist any more, relative to the language folder.
+	 */
+	orphanedFiles: string[];
+	/**
+	 * Keys, which do not exist any more, in the message files relative to the language folder.
+	 */
+	orphanedKeys: Map<string[]>;
+}
+
+function findI18nFiles(dir: string, prefix: string = ''): string[] {
+	if (!fs.existsSync(dir)) {
+		return [];
+	}
+	const result: string[] = [];
+	fs.readdirSync(dir).sort().forEach(name => {
+		const file = path.join(dir, name);
+		if (fs.statSync(file).isDirectory()) {
+			result.push(...findI18nFiles(file, `${prefix}${name}/`));
+		} else if (name.endsWith('.i18n.json')) {
+			result.push(prefix + name);
+		}
+	});
+	return result;
+}
+
+function splitProlog(content: string): [string, string] {
+	const match = /^(?:\s|\/\/[^\n]*(?:\n|$)|\/\*[\s\S]*?\*\/)*/.exec(content);
+	const length = match ? match[0].length : 0;
+	return [content.substr(0, length), content.substr(length)];
+}
+
+/**
+ * Finds message files of a language, which belong to no bundle, and keys in the message
+ * files, which are missing in the bundles. The bundles are identified by the file names
+ * used by `createLocalizedMessages` and have to include all bundles, which have message
+ * files in the language folder. If `prune` is set, the orphaned files are deleted and
+ * the orphaned keys are removed from the message files, preserving their prolog.
+ */
+export function findStaleTranslations(bundles: Map<ResolvedJavaScriptMessageBundle | PackageJsonMessageBundle>, languageFolderName: string, i18nBaseDir: string, baseDir?: string, prune: boolean = false): StaleTranslationsResult {
+	const languageDir = baseDir
+		? path.join(i18nBaseDir, languageFolderName, baseDir)
+		: path.join(i18nBaseDir, languageFolderName);
+	const result: StaleTranslationsResult = { orphanedFiles: [], orphanedKeys: Object.create(null) };
+	findI18nFiles(languageDir).forEach(i18nFile => {
+		const filename = i18nFile.substr(0, i18nFile.length - '.i18n.json'.length);
+		const file = path.join(languageDir, i18nFile);
+		const bundle = bundles[filename];
+		if (!bundle) {
+			result.orphanedFiles.push(i18nFile);
+			if (prune) {
+				fs.unlinkSync(file);
+			}
+			return;
+		}
+		const content = fs.readFileSync(file, 'utf8');
+		const messages = JSON.parse(stripComments(content)) as Map<string>;
+		const isKnown = ResolvedJavaScriptMessageBundle.is(bundle)
+			? (key: string) => bundle.map[key] !== undefined
+			: (key: string) => Object.prototype.hasOwnProperty.call(bundle, key);
+		const orphanedKeys = Object.keys(messages).filter(key => !isKnown(key));
+		if (orphanedKeys.length === 0) {
+			return;
+		}
+		result.orphanedKeys[i18nFile] = orphanedKeys;
+		if (prune) {
+			const [prolog, json] = splitProlog(content);
+			orphanedKeys.forEach(key => delete messages[key]);
+			const ending = /\r?\n$/.exec(json);
+			fs.writeFileSync(file, prolog + JSON.stringify(messages, null, '\t') + (ending ? ending[0] : ''), 'utf8');
+		}
+	});
+	return result;
+}
+
+export interface PackageJsonPlaceholder {
+	key: string;
+	/**
+	 * Path to the value in `package.json`, e.g. `contributes.commands[0].title`.
+	 */
+	path: string;
+}
+
+export interface PackageJsonReferences {
+	/**
+	 * Placeholders in `package.json` with no message in `package.nls.json`.
+	 */
+	undefinedKeys: PackageJsonPlaceholder[];
+	/**
+	 * Keys in `package.nls.json` not referred to in `package.json`.
+	 */
+	unusedKeys: string[];
+}
+
+function appendJsonPath(path: string, name: string | number): string {
+	if (typeof name === 'number') {
+		return `${path}[${name}]`;
+	}
+	if (/^[A-Za-z_$][\w$]*$/.test(name)) {
+		return path ? `${path}.${name}` : name;
+	}
+	return `${path}[${JSON.stringify(name)}]`;
+}
+
+/**
+ * Finds values like `%command.title%` in `package.json`, which VS Code replaces
+ * by the messages from `package.nls.json`.
+ */
+export function findPackageJsonPlaceholders(packageJson: any): PackageJsonPlaceholder[] {
+	const placeholders: PackageJsonPlaceholder[] = [];
+	function visit(value: any, path: string): void {
+		if (isString(value)) {
+			const match = /^%([^%\s]+)%$/.exec(value);
+			if (match) {
+				placeholders.push({ key: match[1], path });
+			}
+		} else if (Array.isArray(value)) {
+			value.forEach((item, index) => visit(item, appendJsonPath(path, index)));
+		} else if (value && typeof value === 'object') {
+			Object.keys(value).forEach(name => visit(value[name], appendJsonPath(path, name)));
+		}
+	}
+	visit(packageJson, '');
+	return placeholders;
+}
+
+/**
+ * Compares the placeholders in `package.json` with the messages in `package.nls.json`.
+ */
+export function checkPackageJsonPlaceholders(packageJson: any, bundle: PackageJsonMessageBundle): PackageJsonReferences {
+	const placeholders = findPackageJsonPlaceholders(packageJson);
+	const usedKeys = new Set(placeholders.map(placeholder => placeholder.key));
+	return {
+		undefinedKeys: placeholders.filter(placeholder => !Object.prototype.hasOwnProperty.call(bundle, placeholder.key)),
+		unusedKeys: Object.keys(bundle).filter(key => !usedKeys.has(key))
+	};
+}
+
 export function bundle2keyValuePair(bundle: JavaScriptMessageBundle, commentSeparator: string | undefined = undefined): any {
 	let result = Object.create(null);
 
@@ -786,7 +2180,15 @@ export function bundle2keyValuePair(bundle: JavaScriptMessageBundle, commentSepa
 			key = keyInfo;
 		}
 
+		// Skip tombstones of removed keys.
+		if (key === '') {
+			continue;
+		}
+
 		if (key in result) {
+			if (result[key] === bundle.messages[i]) {
+				continue;
+			}
 			throw new Error(`The following key is duplicated: "${key}". Please use unique keys.`);
 		}
 
@@ -843,6 +2245,14 @@ export interface BundledMetaDataFile {
 	[key: string]: BundledMetaDataEntry;
 }
 
+/**
+ * A key used in more files of an extension with different messages.
+ */
+export interface KeyConflict {
+	key: string;
+	usages: { filePath: string, message: string }[];
+}
+
 export class MetaDataBundler {
 
 	private content: BundledMetaDataFile = Object.create(null);
@@ -889,4 +2299,23 @@ export class MetaDataBundler {
 
 		return [header, this.content];
 	}
+
+	/**
+	 * Lists keys, which are used in more files with different messages.
+	 */
+	conflicts(): KeyConflict[] {
+		const usages: Map<{ filePath: string, message: string }[]> = Object.create(null);
+		for (const filePath of Object.keys(this.content).sort()) {
+			const entry = this.content[filePath];
+			entry.keys.forEach((keyInfo, index) => {
+				const key = KeyInfo.key(keyInfo);
+				if (key !== '') {
+					(usages[key] || (usages[key] = [])).push({ filePath, message: entry.messages[index] });
+				}
+			});
+		}
+		return Object.keys(usages).sort()
+			.filter(key => usages[key].some(usage => usage.message !== usages[key][0].message))
+			.map(key => ({ key, usages: usages[key] }));
+	}
 }
@@ -5,6 +5,7 @@
 'use strict';
 
 import { readable, through, ThroughStream } from 'event-stream';
+import * as fs from 'fs';
 import * as https from 'https';
 import * as Is from 'is';
 import * as path from 'path';
@@ -12,7 +13,10 @@ import { ThroughStream as _ThroughStream } from 'through';
 import * as xml2js from 'xml2js';
 import {
 	bundle2keyValuePair, createLocalizedMessages, JavaScriptMessageBundle, KeyInfo, Map, processFile, resolveMessageBundle, removePathPrefix, BundledMetaDataHeader,
-	BundledMetaDataFile, SingleMetaDataFile, BundledMetaDataEntry, MetaDataBundler, MessageBundle, PackageJsonMessageBundle
+	BundledMetaDataFile, SingleMetaDataFile, BundledMetaDataEntry, MetaDataBundler, MessageBundle, PackageJsonMessageBundle, ProcessFileOptions,
+	ProcessFileResult, processProject, Severity, checkPackageJsonPlaceholders, findStaleTranslations, ResolvedJavaScriptMessageBundle,
+	computeTranslationCoverage, formatCoverageTable, formatCoverageMarkdown, Problem, PseudoLocalizationOptions, createPseudoLocalizedMessages,
+	pseudoLocalize, createL10nBundles, importL10nTranslations, L10nMessage
 } from './lib';
 import File = require('vinyl');
 import * as fancyLog from 'fancy-log';
@@ -30,97 +34,207 @@ const NLS_JSON = '.nls.json';
 const NLS_METADATA_JSON = '.nls.metadata.json';
 const I18N_JSON = '.i18n.json';
 
-export function rewriteLocalizeCalls(): ThroughStream {
+export interface LocalizeCallsOptions extends ProcessFileOptions {
+	/**
+	 * Analyzes all files of the stream together to follow localize functions
+	 * imported from other files. The files are emitted when the stream ends.
+	 */
+	project?: boolean;
+	/**
+	 * Path to a JSON file with the order of the keys of every file from the previous build,
+	 * which keeps the message indexes stable (see `keyOrder` of `processFile`). The file
+	 * is read when the stream is created and updated when the stream ends.
+	 */
+	keyManifest?: string;
+}
+
+type KeyManifest = Map<(string | null)[]>;
+
+function readKeyManifest(options: LocalizeCallsOptions | undefined): KeyManifest | undefined {
+	if (!options || !options.keyManifest) {
+		return undefined;
+	}
+	const manifest: KeyManifest = Object.create(null);
+	if (fs.existsSync(options.keyManifest)) {
+		Object.assign(manifest, JSON.parse(fs.readFileSync(options.keyManifest, 'utf8')));
+	}
+	return manifest;
+}
+
+function writeKeyManifest(options: LocalizeCallsOptions | undefined, manifest: KeyManifest | undefined): void {
+	if (options && options.keyManifest && manifest) {
+		const sorted: KeyManifest = {};
+		Object.keys(manifest).sort().forEach(key => sorted[key] = manifest[key]);
+		fs.writeFileSync(options.keyManifest, JSON.stringify(sorted, null, '\t'), 'utf8');
+	}
+}
+
+function getManifestKey(file: File): string {
+	return file.relative.replace(/\\/g, '/');
+}
+
+function processFiles(files: FileWithSourceMap[], options: LocalizeCallsOptions | undefined, useSourceMaps: boolean, manifest: KeyManifest | undefined): ProcessFileResult[] {
+	const results = processProject(files.map(file => ({
+		fileName: file.path,
+		contents: (file.contents as Buffer).toString('utf8'),
+		sourceMap: useSourceMaps ? file.sourceMap : undefined,
+		keyOrder: manifest ? manifest[getManifestKey(file)] || [] : undefined
+	})), options);
+	if (manifest) {
+		files.forEach((file, index) => updateKeyManifest(manifest, file, results[index]));
+	}
+	return results;
+}
+
+function processSingleFile(file: FileWithSourceMap, options: LocalizeCallsOptions | undefined, useSourceMaps: boolean, manifest: KeyManifest | undefined): ProcessFileResult {
+	const result = processFile((file.contents as Buffer).toString('utf8'), undefined, useSourceMaps ? file.sourceMap : undefined, Object.assign({}, options, {
+		fileName: file.path,
+		keyOrder: manifest ? manifest[getManifestKey(file)] || [] : undefined
+	}));
+	if (manifest) {
+		updateKeyManifest(manifest, file, result);
+	}
+	return result;
+}
+
+function updateKeyManifest(manifest: KeyManifest, file: File, result: ProcessFileResult): void {
+	if (result.keyOrder) {
+		manifest[getManifestKey(file)] = result.keyOrder;
+	}
+}
+
+export function rewriteLocalizeCalls(options?: LocalizeCallsOptions): ThroughStream {
+	const files: FileWithSourceMap[] = [];
+	const manifest = readKeyManifest(options);
 	return through(
 		function (this: ThroughStream, file: FileWithSourceMap) {
 			if (!file.isBuffer()) {
 				this.emit('error', `Failed to read file: ${file.relative}`);
 				return;
 			}
-			const buffer: Buffer = file.contents as Buffer;
-			const content = buffer.toString('utf8');
-			const sourceMap = file.sourceMap;
-
-			const result = processFile(content, undefined, sourceMap);
-			let messagesFile: File | undefined;
-			let metaDataFile: File | undefined;
-			if (result.errors && result.errors.length > 0) {
-				result.errors.forEach(error => console.error(`${file.relative}${error}`));
-				this.emit('error', `Failed to rewrite file: ${file.path}`);
+			if (options && options.project) {
+				files.push(file);
 				return;
-			} else {
-				if (result.contents) {
-					file.contents = Buffer.from(result.contents, 'utf8');
-				}
-				if (result.sourceMap) {
-					file.sourceMap = JSON.parse(result.sourceMap);
-				}
-				if (result.bundle) {
-					let ext = path.extname(file.path);
-					let filePath = file.path.substr(0, file.path.length - ext.length);
-					messagesFile = new File({
-						base: file.base,
-						path: filePath + NLS_JSON,
-						contents: Buffer.from(JSON.stringify(result.bundle.messages, null, '\t'), 'utf8')
-					});
-					let metaDataContent: SingleMetaDataFile = Object.assign({}, result.bundle, { filePath: removePathPrefix(filePath, file.base) });
-					metaDataFile = new File({
-						base: file.base,
-						path: filePath + NLS_METADATA_JSON,
-						contents: Buffer.from(JSON.stringify(metaDataContent, null, '\t'), 'utf8')
-					});
-				}
 			}
-			this.queue(file);
-			if (messagesFile) {
-				this.queue(messagesFile);
-			}
-			if (metaDataFile) {
-				this.queue(metaDataFile);
+			const result = processSingleFile(file, options, true, manifest);
+			queueRewrittenFile(this, file, result);
+		},
+		function (this: ThroughStream) {
+			if (files.length > 0) {
+				const results = processFiles(files, options, true, manifest);
+				files.forEach((file, index) => queueRewrittenFile(this, file, results[index]));
 			}
+			writeKeyManifest(options, manifest);
+			this.queue(null);
 		}
 	);
 }
 
-export function createMetaDataFiles(): ThroughStream {
+function queueRewrittenFile(stream: ThroughStream, file: FileWithSourceMap, result: ProcessFileResult): void {
+	let messagesFile: File | undefined;
+	let metaDataFile: File | undefined;
+	result.warnings.forEach(warning => console.warn(`${file.relative}${warning}`));
+	if (result.errors && result.errors.length > 0) {
+		result.errors.forEach(error => console.error(`${file.relative}${error}`));
+		stream.emit('error', `Failed to rewrite file: ${file.path}`);
+		return;
+	} else {
+		if (result.contents) {
+			file.contents = Buffer.from(result.contents, 'utf8');
+		}
+		if (result.sourceMap) {
+			file.sourceMap = JSON.parse(result.sourceMap);
+		}
+		if (result.bundle) {
+			let ext = path.extname(file.path);
+			let filePath = file.path.substr(0, file.path.length - ext.length);
+			messagesFile = new File({
+				base: file.base,
+				path: filePath + NLS_JSON,
+				contents: Buffer.from(JSON.stringify(result.bundle.messages, null, '\t'), 'utf8')
+			});
+			let metaDataContent: SingleMetaDataFile = Object.assign({}, result.bundle, { filePath: removePathPrefix(filePath, file.base) });
+			metaDataFile = new File({
+				base: file.base,
+				path: filePath + NLS_METADATA_JSON,
+				contents: Buffer.from(JSON.stringify(metaDataContent, null, '\t'), 'utf8')
+			});
+		}
+	}
+	stream.queue(file);
+	if (messagesFile) {
+		stream.queue(messagesFile);
+	}
+	if (metaDataFile) {
+		stream.queue(metaDataFile);
+	}
+}
+
+export function createMetaDataFiles(options?: LocalizeCallsOptions): ThroughStream {
+	const files: FileWithSourceMap[] = [];
+	const manifest = readKeyManifest(options);
 	return through(
 		function (this: ThroughStream, file: FileWithSourceMap) {
 			if (!file.isBuffer()) {
 				this.emit('error', `Failed to read file: ${file.relative}`);
 				return;
 			}
-
-			let result = processFile(file.contents.toString('utf8'), undefined, undefined);
-			if (result.errors && result.errors.length > 0) {
-				result.errors.forEach(error => console.error(`${file.relative}${error}`));
-				this.emit('error', `Failed to rewrite file: ${file.path}`);
+			if (options && options.project) {
+				files.push(file);
 				return;
 			}
 
-			// emit the input file as-is
-			this.queue(file);
-
-			// emit nls meta data if available
-			if (result.bundle) {
-				let ext = path.extname(file.path);
-				let filePath = file.path.substr(0, file.path.length - ext.length);
-				this.queue(new File({
-					base: file.base,
-					path: filePath + NLS_JSON,
-					contents: Buffer.from(JSON.stringify(result.bundle.messages, null, '\t'), 'utf8')
-				}));
-				let metaDataContent: SingleMetaDataFile = Object.assign({}, result.bundle, { filePath: removePathPrefix(filePath, file.base) });
-				this.queue(new File({
-					base: file.base,
-					path: filePath + NLS_METADATA_JSON,
-					contents: Buffer.from(JSON.stringify(metaDataContent, null, '\t'), 'utf8')
-				}));
+			let result = processSingleFile(file, options, false, manifest);
+			queueMetaDataFiles(this, file, result);
+		},
+		function (this: ThroughStream) {
+			if (files.length > 0) {
+				const results = processFiles(files, options, false, manifest);
+				files.forEach((file, index) => queueMetaDataFiles(this, file, results[index]));
 			}
+			writeKeyManifest(options, manifest);
+			this.queue(null);
 		}
 	);
 }
 
-export function bundleMetaDataFiles(id: string, outDir: string): ThroughStream {
+function queueMetaDataFiles(stream: ThroughStream, file: FileWithSourceMap, result: ProcessFileResult): void {
+	result.warnings.forEach(warning => console.warn(`${file.relative}${warning}`));
+	if (result.errors && result.errors.length > 0) {
+		result.errors.forEach(error => console.error(`${file.relative}${error}`));
+		stream.emit('error', `Failed to rewrite file: ${file.path}`);
+		return;
+	}
+
+	// emit the input file as-is
+	stream.queue(file);
+
+	// emit nls meta data if available
+	if (result.bundle) {
+		let ext = path.extname(file.path);
+		let filePath = file.path.substr(0, file.path.length - ext.length);
+		stream.queue(new File({
+			base: file.base,
+			path: filePath + NLS_JSON,
+			contents: Buffer.from(JSON.stringify(result.bundle.messages, null, '\t'), 'utf8')
+		}));
+		let metaDataContent: SingleMetaDataFile = Object.assign({}, result.bundle, { filePath: removePathPrefix(filePath, file.base) });
+		stream.queue(new File({
+			base: file.base,
+			path: filePath + NLS_METADATA_JSON,
+			contents: Buffer.from(JSON.stringify(metaDataContent, null, '\t'), 'utf8')
+		}));
+	}
+}
+
+export interface BundleMetaDataOptions {
+	/**
+	 * Severity of keys used in more files with different messages. Defaults to `ignore`.
+	 */
+	duplicates?: Severity;
+}
+
+export function bundleMetaDataFiles(id: string, outDir: string, options: BundleMetaDataOptions = {}): ThroughStream {
 	let base: string | undefined = undefined;
 	const bundler = new MetaDataBundler(id, outDir);
 	return through(function (this: ThroughStream, file: File) {
@@ -144,6 +258,19 @@ export function bundleMetaDataFiles(id: string, outDir: string): ThroughStream {
 		const json: SingleMetaDataFile = JSON.parse(buffer.toString('utf8'));
 		bundler.add(json);
 	}, function () {
+		const severity = options.duplicates || 'ignore';
+		if (severity !== 'ignore') {
+			const conflicts = bundler.conflicts();
+			conflicts.forEach(conflict => {
+				const usages = conflict.usages.map(usage => `${usage.filePath}: "${usage.message}"`).join(', ');
+				(severity === 'error' ? console.error : console.warn)(`Key ${conflict.key} is used with different messages: ${usages}`);
+			});
+			if (severity === 'error' && conflicts.length > 0) {
+				this.emit('error', `Keys are used with different messages: ${conflicts.map(conflict => conflict.key).join(', ')}`);
+				this.queue(null);
+				return;
+			}
+		}
 		if (base) {
 			const [header, content] = bundler.bundle();
 			this.queue(new File({
@@ -164,12 +291,54 @@ export function bundleMetaDataFiles(id: string, outDir: string): ThroughStream {
 export interface Language {
 	id: string; // language id, e.g. zh-tw, de
 	folderName?: string; // language specific folder name, e.g. cht, deu  (optional, if not set, the id is used)
+	fallback?: string[]; // ids of languages to take missing translations from, e.g. ['pt'] for pt-br (optional, English is used at last)
+	pseudo?: boolean | PseudoLocalizationOptions; // generate pseudo-localized messages instead of reading message files, e.g. for qps-ploc (optional)
 }
 
-export function createAdditionalLanguageFiles(languages: Language[], i18nBaseDir: string, baseDir?: string, logProblems: boolean = true): ThroughStream {
+export interface LanguageFilesOptions {
+	/**
+	 * Name of a JSON file with all problems, which is emitted when the stream ends.
+	 */
+	problemsFile?: string;
+	/**
+	 * Fails the stream when it ends, if problems with the severity `error` were found.
+	 */
+	failOnErrors?: boolean;
+	/**
+	 * Uses the English messages instead of translations with mismatching placeholders or mnemonics.
+	 */
+	fallbackOnMismatch?: boolean;
+}
+
+/**
+ * Resolves the folder names of the fallback languages of a language, followed by their own
+ * fallback languages.
+ */
+function getFallbackFolderNames(language: Language, languages: Language[]): string[] {
+	const ids: string[] = [];
+	const addFallbacks = (fallback: string[] = []) => fallback.forEach(id => {
+		if (id !== language.id && ids.indexOf(id) < 0) {
+			ids.push(id);
+			const fallbackLanguage = languages.find(candidate => candidate.id === id);
+			addFallbacks(fallbackLanguage && fallbackLanguage.fallback);
+		}
+	});
+	addFallbacks(language.fallback);
+	return ids.map(id => {
+		const fallbackLanguage = languages.find(candidate => candidate.id === id);
+		return fallbackLanguage && fallbackLanguage.folderName || id;
+	});
+}
+
+export function createAdditionalLanguageFiles(languages: Language[], i18nBaseDir: string, baseDir?: string, logProblems: boolean = true, options: LanguageFilesOptions = {}): ThroughStream {
+	const problems: Problem[] = [];
+	let base: string | undefined;
 	return through(function (this: ThroughStream, file: File) {
 		// Queue the original file again.
 		this.queue(file);
+		if (!base) {
+			base = file.base;
+		}
 
 		const basename = path.basename(file.relative);
 		const isPackageFile = basename === 'package.nls.json';
@@ -186,11 +355,21 @@ export function createAdditionalLanguageFiles(languages: Language[], i18nBaseDir
 			json = JSON.parse(buffer.toString('utf8'));
 			const resolvedBundle = resolveMessageBundle(json);
 			languages.forEach((language) => {
+				if (language.pseudo) {
+					this.queue(new File({
+						base: file.base,
+						path: path.join(file.base, filename) + '.nls.' + language.id + '.json',
+						contents: Buffer.from(JSON.stringify(createPseudoLocalizedMessages(resolvedBundle, getPseudoOptions(language)), null, '\t'), 'utf8')
+					}));
+					return;
+				}
 				const folderName = language.folderName || language.id;
-				const result = createLocalizedMessages(filename, resolvedBundle, folderName, i18nBaseDir, baseDir);
-				if (result.problems && result.problems.length > 0 && logProblems) {
-					result.problems.forEach(problem => log(problem));
+				const fallbackFolderNames = getFallbackFolderNames(language, languages);
+				const result = createLocalizedMessages(filename, resolvedBundle, folderName, i18nBaseDir, baseDir, { fallbackOnMismatch: options.fallbackOnMismatch, fallbackFolderNames });
+				if (logProblems) {
+					Problem.format(result.problems, folderName).forEach(line => log(line));
 				}
+				problems.push(...result.problems);
 				if (result.messages) {
 					this.queue(new File({
 						base: file.base,
@@ -203,14 +382,220 @@ export function createAdditionalLanguageFiles(languages: Language[], i18nBaseDir
 			this.emit('error', `Failed to read component file: ${file.relative}`);
 			return;
 		}
+	}, function (this: ThroughStream) {
+		if (options.problemsFile) {
+			const problemsBase = base || process.cwd();
+			this.queue(new File({
+				base: problemsBase,
+				path: path.join(problemsBase, options.problemsFile),
+				contents: Buffer.from(JSON.stringify(problems, null, '\t'), 'utf8')
+			}));
+		}
+		const errors = problems.filter(problem => problem.severity === 'error');
+		if (options.failOnErrors && errors.length > 0) {
+			this.emit('error', `Generating localized messages resulted in ${errors.length} error(s)`);
+		}
+		this.queue(null);
+	});
+}
+
+/**
+ * Collects the message bundles of the modules from `package.nls.json`, `.nls.metadata.json`
+ * and the bundled `nls.metadata.json`, identified by the file names used for their message files.
+ */
+function collectModuleBundles(file: File, bundles: Map<ResolvedJavaScriptMessageBundle | PackageJsonMessageBundle>): void {
+	const basename = path.basename(file.relative);
+	const isPackageFile = basename === 'package.nls.json';
+	const isBundledFile = basename === 'nls.metadata.json';
+	const isAffected = isPackageFile || isBundledFile || basename.match(/nls.metadata.json$/) !== null;
+	if (!isAffected || !file.isBuffer()) {
+		return;
+	}
+	const json = JSON.parse((file.contents as Buffer).toString('utf8'));
+	if (isBundledFile) {
+		const content = json as BundledMetaDataFile;
+		Object.keys(content).forEach(module => bundles[module] = resolveMessageBundle(content[module]));
+		return;
+	}
+	if (!isPackageFile && !JavaScriptMessageBundle.is(json)) {
+		return;
+	}
+	const filename = isPackageFile
+		? file.relative.substr(0, file.relative.length - '.nls.json'.length)
+		: file.relative.substr(0, file.relative.length - NLS_METADATA_JSON.length);
+	bundles[filename.replace(/\\/g, '/')] = resolveMessageBundle(json);
+}
+
+/**
+ * Reports message files of the languages, which belong to no module in the stream, and keys
+ * in the message files, which are missing in the modules. The modules are read from the
+ * `.nls.metadata.json` and `package.nls.json` files like in `createAdditionalLanguageFiles`,
+ * which have to include all modules with message files in the language folders. If `prune`
+ * is set, the orphaned files are deleted and the orphaned keys are removed from the message files.
+ */
+export function findStaleTranslationFiles(languages: Language[], i18nBaseDir: string, baseDir?: string, prune: boolean = false): ThroughStream {
+	const bundles: Map<ResolvedJavaScriptMessageBundle | PackageJsonMessageBundle> = Object.create(null);
+	return through(function (this: ThroughStream, file: File) {
+		this.queue(file);
+		collectModuleBundles(file, bundles);
+	}, function (this: ThroughStream) {
+		languages.forEach(language => {
+			const folderName = language.folderName || language.id;
+			const result = findStaleTranslations(bundles, folderName, i18nBaseDir, baseDir, prune);
+			const action = prune ? 'removed' : 'found';
+			result.orphanedFiles.forEach(file => log(`Orphaned message file ${folderName}/${file} ${action}`));
+			Object.keys(result.orphanedKeys).forEach(file => log(`Orphaned keys in ${folderName}/${file} ${action}: ${result.orphanedKeys[file].join(', ')}`));
+		});
+		this.queue(null);
+	});
+}
+
+export interface CoverageReportOptions {
+	/**
+	 * Name of the emitted JSON report. Defaults to `nls.coverage.json`.
+	 */
+	json?: string;
+	/**
+	 * Name of the emitted Markdown summary. The summary is not emitted by default.
+	 */
+	markdown?: string;
+	/**
+	 * Minimum percentage of translated messages of every language. The stream fails,
+	 * if a language is translated less.
+	 */
+	threshold?: number;
+	/**
+	 * Logs the coverage as a table. Defaults to `true`.
+	 */
+	log?: boolean;
+}
+
+/**
+ * Computes the translation coverage of the modules in the stream for the languages and
+ * emits it as a JSON report and optionally as a Markdown summary, when the stream ends.
+ * The modules are read like in `findStaleTranslationFiles`.
+ */
+export function createCoverageReport(languages: Language[], i18nBaseDir: string, baseDir?: string, options: CoverageReportOptions = {}): ThroughStream {
+	const bundles: Map<ResolvedJavaScriptMessageBundle | PackageJsonMessageBundle> = Object.create(null);
+	let base: string | undefined;
+	return through(function (this: ThroughStream, file: File) {
+		this.queue(file);
+		if (!base) {
+			base = file.base;
+		}
+		collectModuleBundles(file, bundles);
+	}, function (this: ThroughStream) {
+		const coverage = languages.map(language => computeTranslationCoverage(bundles, language.folderName || language.id, i18nBaseDir, baseDir));
+		if (options.log !== false) {
+			formatCoverageTable(coverage).split('\n').forEach(line => log(line));
+		}
+		const reportBase = base || process.cwd();
+		this.queue(new File({
+			base: reportBase,
+			path: path.join(reportBase, options.json || 'nls.coverage.json'),
+			contents: Buffer.from(JSON.stringify(coverage, null, '\t'), 'utf8')
+		}));
+		if (options.markdown) {
+			this.queue(new File({
+				base: reportBase,
+				path: path.join(reportBase, options.markdown),
+				contents: Buffer.from(formatCoverageMarkdown(coverage), 'utf8')
+			}));
+		}
+		const threshold = options.threshold;
+		const failed = threshold !== undefined ? coverage.filter(language => language.percentage < threshold) : [];
+		if (failed.length > 0) {
+			this.emit('error', `Translation coverage is below ${threshold}%: ${failed.map(language => `${language.language} (${language.percentage}%)`).join(', ')}`);
+		}
+		this.queue(null);
+	});
+}
+
+/**
+ * Converts the bundled `nls.metadata.json` and the message files of the languages to
+ * `l10n/bundle.l10n.json` and `l10n/bundle.l10n.<language>.json` for the `vscode.l10n` API.
+ * Only the bundles are emitted. Messages translated differently in different modules are logged.
+ */
+export function createL10nBundleFiles(languages: Language[], i18nBaseDir: string, baseDir?: string): ThroughStream {
+	let data: BundledMetaDataFile | undefined;
+	let base: string | undefined;
+	return through(function (this: ThroughStream, file: File) {
+		if (path.basename(file.relative) === 'nls.metadata.json' && file.isBuffer()) {
+			data = JSON.parse((file.contents as Buffer).toString('utf8'));
+			base = file.base;
+		}
+	}, function (this: ThroughStream) {
+		if (!data || !base) {
+			this.emit('error', 'No nls.metadata.json found for the l10n bundles');
+			this.queue(null);
+			return;
+		}
+		const folderNames = languages.map(language => language.folderName || language.id);
+		const result = createL10nBundles(data, folderNames, i18nBaseDir, baseDir);
+		result.conflicts.forEach(conflict => log(conflict));
+		const bundles: [string, Map<string | L10nMessage>][] = [['bundle.l10n.json', result.bundle]];
+		languages.forEach((language, index) => bundles.push([`bundle.l10n.${language.id}.json`, result.translations[folderNames[index]]]));
+		bundles.forEach(([fileName, bundle]) => this.queue(new File({
+			base: base,
+			path: path.join(base!, 'l10n', fileName),
+			contents: Buffer.from(JSON.stringify(bundle, null, '\t'), 'utf8')
+		})));
+		this.queue(null);
+	});
+}
+
+/**
+ * Imports translations of `bundle.l10n.<language>.json` files to message files of the languages,
+ * so that they can be merged to the `i18n` folder. The keys are read from `nls.metadata.json`,
+ * which has to be included in the stream.
+ */
+export function importL10nBundleFiles(languages: Language[] = [], baseDir?: string, prolog: string | string[] = ''): ThroughStream {
+	let data: BundledMetaDataFile | undefined;
+	const translations: Map<Map<string>> = Object.create(null);
+	return through(function (this: ThroughStream, file: File) {
+		if (!file.isBuffer()) {
+			return;
+		}
+		const basename = path.basename(file.relative);
+		const matches = basename.match(/^bundle\.l10n\.(.+)\.json$/);
+		if (basename === 'nls.metadata.json') {
+			data = JSON.parse((file.contents as Buffer).toString('utf8'));
+		} else if (matches) {
+			translations[matches[1]] = JSON.parse((file.contents as Buffer).toString('utf8'));
+		}
+	}, function (this: ThroughStream) {
+		if (!data) {
+			this.emit('error', 'No nls.metadata.json found for importing the l10n bundles');
+			this.queue(null);
+			return;
+		}
+		for (const id in translations) {
+			const language = languages.find(candidate => candidate.id === id);
+			const folderName = language && language.folderName || id;
+			const modules = importL10nTranslations(data, translations[id]);
+			for (const module in modules) {
+				this.queue(createI18nFile(folderName, baseDir ? path.join(baseDir, module) : module, modules[module], prolog));
+			}
+		}
+		this.queue(null);
 	});
 }
 
 interface ExtensionLanguageBundle {
-	[key: string]: string[];
+	// Modules of package.nls.json files contain key/value pairs instead of arrays.
+	[key: string]: string[] | Map<string | { message: string }>;
 }
 
-export function bundleLanguageFiles(): ThroughStream {
+function getPseudoOptions(language: Language): PseudoLocalizationOptions {
+	return typeof language.pseudo === 'object' ? language.pseudo : {};
+}
+
+/**
+ * Bundles the `.nls.json` and `.nls.<language>.json` files to `nls.bundle.json` and `nls.bundle.<language>.json`.
+ * Bundles of the pseudo languages in `languages` are created from the English messages, unless their
+ * `.nls.<language>.json` files were already generated by `createAdditionalLanguageFiles`.
+ */
+export function bundleLanguageFiles(languages: Language[] = []): ThroughStream {
 	interface MapValue {
 		base: string;
 		content: ExtensionLanguageBundle;
@@ -239,6 +624,25 @@ export function bundleLanguageFiles(): ThroughStream {
 		}
 		bundle.content[getModuleKey(file.relative)] = JSON.parse((file.contents as Buffer).toString('utf8'));
 	}, function () {
+		const english = bundles['en'];
+		languages.filter(language => language.pseudo && !bundles[language.id] && english).forEach(language => {
+			const options = getPseudoOptions(language);
+			const content: ExtensionLanguageBundle = Object.create(null);
+			Object.keys(english.content).forEach(module => {
+				const messages = english.content[module];
+				if (Array.isArray(messages)) {
+					content[module] = messages.map(message => pseudoLocalize(message, options));
+				} else {
+					const map: Map<string> = Object.create(null);
+					Object.keys(messages).forEach(key => {
+						const value = messages[key];
+						map[key] = pseudoLocalize(typeof value === 'string' ? value : value.message, options);
+					});
+					content[module] = map;
+				}
+			});
+			bundles[language.id] = { base: english.base, content };
+		});
 		for (const language in bundles) {
 			const bundle = bundles[language];
 			const languageId = language === 'en' ? '' : `${language}.`;
@@ -305,6 +709,106 @@ export function createKeyValuePairFile(commentSeparator: string | undefined = un
 	});
 }
 
+export interface PackageJsonCheckOptions {
+	/**
+	 * Severity of placeholders like `%command.title%` in `package.json` missing
+	 * in `package.nls.json`. Defaults to `error`.
+	 */
+	undefinedKeys?: Severity;
+	/**
+	 * Severity of keys in `package.nls.json` not used in `package.json`. Defaults to `warning`.
+	 */
+	unusedKeys?: Severity;
+	/**
+	 * Adds the missing keys with empty messages to `package.nls.json`, which is created
+	 * next to `package.json` if it does not exist.
+	 */
+	createMissing?: boolean;
+}
+
+/**
+ * Checks that the placeholders in `package.json` have messages in `package.nls.json`
+ * and that all messages are used. Both files are emitted when the stream ends.
+ */
+export function checkPackageJsonFiles(options: PackageJsonCheckOptions = {}): ThroughStream {
+	// The files of more extensions are checked separately by their directories.
+	const directories: Map<{ packageFile?: File, nlsFile?: File }> = Object.create(null);
+	return through(function (this: ThroughStream, file: File) {
+		const basename = path.basename(file.relative);
+		if (basename !== 'package.json' && basename !== 'package.nls.json') {
+			this.queue(file);
+			return;
+		}
+		if (!file.isBuffer()) {
+			this.emit('error', `Failed to read file: ${file.relative}`);
+			return;
+		}
+		const directory = path.dirname(file.relative);
+		const files = directories[directory] || (directories[directory] = {});
+		if (basename === 'package.json') {
+			files.packageFile = file;
+		} else {
+			files.nlsFile = file;
+		}
+	}, function (this: ThroughStream) {
+		Object.keys(directories).forEach(directory => {
+			const checkedFiles = checkPackageJsonFile(this, directories[directory], options);
+			if (checkedFiles) {
+				checkedFiles.forEach(checkedFile => this.queue(checkedFile));
+			}
+		});
+		this.queue(null);
+	});
+}
+
+/**
+ * Checks the placeholders of a package.json file against its package.nls.json file.
+ * Returns the files to emit, or undefined, if the check failed.
+ */
+function checkPackageJsonFile(stream: ThroughStream, files: { packageFile?: File, nlsFile?: File }, options: PackageJsonCheckOptions): File[] | undefined {
+	const packageFile = files.packageFile;
+	let nlsFile = files.nlsFile;
+	if (!packageFile) {
+		return nlsFile ? [nlsFile] : [];
+	}
+	let packageJson: any;
+	let bundle: PackageJsonMessageBundle;
+	try {
+		packageJson = JSON.parse((packageFile.contents as Buffer).toString('utf8'));
+		bundle = nlsFile ? JSON.parse((nlsFile.contents as Buffer).toString('utf8')) : {};
+	} catch (error) {
+		stream.emit('error', `Failed to parse ${packageJson && nlsFile ? nlsFile.relative : packageFile.relative}: ${(error as Error).message}`);
+		return undefined;
+	}
+	const references = checkPackageJsonPlaceholders(packageJson, bundle);
+	const undefinedSeverity = options.undefinedKeys || 'error';
+	const unusedSeverity = options.unusedKeys || 'warning';
+	let failed = false;
+	if (options.createMissing && references.undefinedKeys.length > 0) {
+		references.undefinedKeys.forEach(placeholder => {
+			log(`Key ${placeholder.key} used at ${placeholder.path} was added to package.nls.json`);
+			bundle[placeholder.key] = '';
+		});
+		nlsFile = new File({
+			base: nlsFile ? nlsFile.base : packageFile.base,
+			path: nlsFile ? nlsFile.path : path.join(path.dirname(packageFile.path), 'package.nls.json'),
+			contents: Buffer.from(JSON.stringify(bundle, null, '\t'), 'utf8')
+		});
+	} else if (undefinedSeverity !== 'ignore') {
+		references.undefinedKeys.forEach(placeholder => log(`Key ${placeholder.key} used at ${placeholder.path} is not defined in package.nls.json`));
+		failed = undefinedSeverity === 'error' && references.undefinedKeys.length > 0;
+	}
+	if (unusedSeverity !== 'ignore') {
+		references.unusedKeys.forEach(key => log(`Key ${key} defined in package.nls.json is not used in package.json`));
+		failed = failed || unusedSeverity === 'error' && references.unusedKeys.length > 0;
+	}
+	if (failed) {
+		stream.emit('error', `Placeholders in ${packageFile.relative} do not match package.nls.json`);
+		return undefined;
+	}
+	return nlsFile ? [packageFile, nlsFile] : [packageFile];
+}
+
 interface Item {
 	id: string;
 	message: string;
@@ -372,14 +876,20 @@ export interface ParsedXLF {
 	messages: Map<string>;
 	originalFilePath: string;
 	language: string;
+	/**
+	 * Ids of the units, which were skipped, because their text could not be read or was empty.
+	 */
+	skippedUnits: string[];
 }
 
+export type XliffVersion = '1.2' | '2.0';
+
 export class XLF {
 	private buffer: string[];
 	private files: Map<Item[]>;
 	private target?: string;
 
-	constructor(public project: string, target?: string) {
+	constructor(public project: string, target?: string, public version: XliffVersion = '1.2') {
 		this.buffer = [];
 		this.files = Object.create(null);
 		this.target = target;
@@ -388,12 +898,18 @@ export class XLF {
 	public toString(): string {
 		this.appendHeader();
 
+		let fileIndex = 0;
 		for (const file in this.files) {
-			this.appendNewLine(`<file original="${file}" source-language="en" ${this.target ? 'target-language="' + this.target + '" ' : ''}datatype="plaintext"><body>`, 2);
+			if (this.version === '2.0') {
+				// File identifiers are NMTOKENs, which cannot contain the slashes of the paths.
+				this.appendNewLine(`<file id="f${++fileIndex}" original="${file}">`, 2);
+			} else {
+				this.appendNewLine(`<file original="${file}" source-language="en" ${this.target ? 'target-language="' + this.target + '" ' : ''}datatype="plaintext"><body>`, 2);
+			}
 			for (const item of this.files[file]) {
 				this.addStringItem(item);
 			}
-			this.appendNewLine('</body></file>', 2);
+			this.appendNewLine(this.version === '2.0' ? '</file>' : '</body></file>', 2);
 		}
 
 		this.appendFooter();
@@ -414,7 +930,8 @@ export class XLF {
 		for (let i = 0; i < keys.length; i++) {
 			const keyInfo = keys[i];
 			const key = KeyInfo.key(keyInfo);
-			if (existingKeys.has(key)) {
+			// Skip duplicates and tombstones of removed keys.
+			if (key === '' || existingKeys.has(key)) {
 				continue;
 			}
 			existingKeys.add(key);
@@ -475,6 +992,21 @@ export class XLF {
 			throw new Error('No item ID or value specified.');
 		}
 
+		if (this.version === '2.0') {
+			this.appendNewLine(`<unit id="${item.id}">`, 4);
+			if (item.comment) {
+				this.appendNewLine(`<notes><note>${item.comment}</note></notes>`, 6);
+			}
+			this.appendNewLine('<segment>', 6);
+			this.appendNewLine(`<source>${item.message}</source>`, 8);
+			if (item.target) {
+				this.appendNewLine(`<target>${item.target}</target>`, 8);
+			}
+			this.appendNewLine('</segment>', 6);
+			this.appendNewLine('</unit>', 4);
+			return;
+		}
+
 		this.appendNewLine(`<trans-unit id="${item.id}">`, 4);
 		this.appendNewLine(`<source xml:lang="en">${item.message}</source>`, 6);
 
@@ -491,7 +1023,11 @@ export class XLF {
 
 	private appendHeader(): void {
 		this.appendNewLine('<?xml version="1.0" encoding="utf-8"?>', 0);
-		this.appendNewLine('<xliff version="1.2" xmlns="urn:oasis:names:tc:xliff:document:1.2">', 0);
+		if (this.version === '2.0') {
+			this.appendNewLine(`<xliff version="2.0" xmlns="urn:oasis:names:tc:xliff:document:2.0" srcLang="en"${this.target ? ' trgLang="' + this.target + '"' : ''}>`, 0);
+		} else {
+			this.appendNewLine('<xliff version="1.2" xmlns="urn:oasis:names:tc:xliff:document:1.2">', 0);
+		}
 	}
 
 	private appendFooter(): void {
@@ -504,68 +1040,126 @@ export class XLF {
 		this.buffer.push(line.toString());
 	}
 
+	/**
+	 * Parses XLIFF 1.2 or 2.0, depending on the version of the `xliff` element. Units
+	 * in groups are read too. Inline elements of the texts are replaced by their content,
+	 * or by the original text of the placeholders. Units without an id or a text, or with
+	 * a placeholder without the original text, are skipped and reported in `skippedUnits`.
+	 */
 	static parse(xlfString: string, forceLanguage: boolean = true): Promise<ParsedXLF[]> {
-		const getValue = function (this: void, target: any): string | undefined {
-			if (typeof target === 'string') {
-				return target;
-			}
-			if (typeof target._ === 'string') {
-				return target._;
+		// Set, if a placeholder of the last read text has no original text.
+		let unresolved = false;
+		const getPlaceholder = function (this: void, text: string | undefined): string {
+			if (text === undefined) {
+				unresolved = true;
 			}
-			if (Array.isArray(target) && target.length === 1) {
-				const item = target[0];
-				if (typeof item === 'string') {
-					return item;
+			return text || '';
+		};
+		// The parser keeps the text and the inline elements in their order in $$.
+		const getText = function (this: void, node: any): string {
+			return (node.$$ || []).map((child: any) => {
+				const attributes = child.$ || {};
+				switch (child['#name']) {
+					case '__text__':
+						return child._;
+					case 'x':
+					case 'bx':
+					case 'ex':
+						return getPlaceholder(attributes['equiv-text']);
+					case 'ph':
+						// XLIFF 1.2 encloses the native code, XLIFF 2.0 uses an attribute.
+						return child.$$ ? getText(child) : getPlaceholder(attributes.equiv ?? attributes.disp);
+					case 'sc':
+					case 'ec':
+						return getPlaceholder(attributes.equiv);
+					case 'cp':
+						return String.fromCodePoint(parseInt(attributes.hex, 16));
+					default:
+						// Elements enclosing the text, like g, mrk, pc, bpt or ept.
+						return getText(child);
 				}
-				if (typeof item._ === 'string') {
-					return item._;
+			}).join('');
+		};
+		const getChild = function (this: void, node: any, name: string): any {
+			return (node.$$ || []).find((child: any) => child['#name'] === name);
+		};
+		const collectUnits = function (this: void, node: any, name: string, units: any[]): any[] {
+			(node.$$ || []).forEach((child: any) => {
+				if (child['#name'] === name) {
+					units.push(child);
+				} else if (child['#name'] === 'body' || child['#name'] === 'group') {
+					collectUnits(child, name, units);
 				}
-				return target[0]._;
+			});
+			return units;
+		};
+		// The source and target of XLIFF 2.0 units are split to segments and ignorable whitespace.
+		const joinSegments = function (this: void, unit: any, name: 'source' | 'target'): string | undefined {
+			const parts = (unit.$$ || []).filter((child: any) => child['#name'] === 'segment' || child['#name'] === 'ignorable');
+			const values: (string | undefined)[] = parts.map((part: any) => {
+				const text = getChild(part, name) || (part['#name'] === 'ignorable' ? getChild(part, 'source') : undefined);
+				return text && getText(text);
+			});
+			return values.length > 0 && values.every(value => value !== undefined) ? values.join('') : undefined;
+		};
+		let isVersion2 = false;
+		const getValue = function (this: void, unit: any, name: 'source' | 'target'): string | undefined {
+			unresolved = false;
+			if (isVersion2) {
+				return joinSegments(unit, name);
 			}
-			return undefined;
+			const node = getChild(unit, name);
+			return node && getText(node);
 		};
+		// CDATA content is literal. It is escaped twice, because the texts are decoded once more below.
+		xlfString = xlfString.replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, (_match, content: string) => encodeEntities(encodeEntities(content)));
 		return new Promise((resolve, reject) => {
-			const parser = new xml2js.Parser();
-			const files: { messages: Map<string>, originalFilePath: string, language: string }[] = [];
+			const parser = new xml2js.Parser({ explicitChildren: true, preserveChildrenOrder: true, charsAsChildren: true, includeWhiteChars: true });
+			const files: ParsedXLF[] = [];
 
 			parser.parseString(xlfString, function (err: any, result: any) {
 				if (err) {
 					reject(new Error(`Failed to parse XLIFF string. ${err}`));
+					return;
 				}
 
-				const fileNodes: any[] = result['xliff']['file'];
+				const fileNodes: any[] = result['xliff'] && result['xliff']['file'];
 				if (!fileNodes) {
 					reject(new Error('XLIFF file does not contain "xliff" or "file" node(s) required for parsing.'));
+					return;
 				}
+				isVersion2 = /^2\./.test(result['xliff'].$?.version || '');
 
 				fileNodes.forEach((file) => {
-					const originalFilePath = file.$.original;
+					const originalFilePath = file.$ && file.$.original;
 					if (!originalFilePath) {
 						reject(new Error('XLIFF file node does not contain original attribute to determine the original location of the resource file.'));
 					}
-					const language = file.$['target-language']?.toLowerCase();
+					const language = (isVersion2 ? result['xliff'].$.trgLang : file.$['target-language'])?.toLowerCase();
 					if (forceLanguage && !language) {
-						reject(new Error('XLIFF file node does not contain target-language attribute to determine translated language.'));
+						reject(new Error(`XLIFF ${isVersion2 ? 'xliff node does not contain trgLang' : 'file node does not contain target-language'} attribute to determine translated language.`));
 					}
 
 					const messages: Map<string> = {};
-					const transUnits = file.body[0]['trans-unit'];
-					if (transUnits) {
-						transUnits.forEach((unit: any) => {
-							const key = unit.$.id;
-							if (forceLanguage && !unit.target) {
-								return; // No translation available
-							}
-
-							const val = getValue(unit.target || unit.source);
-							if (key && val) {
-								messages[key] = decodeEntities(val);
-							} else if (forceLanguage) {
-								reject(new Error('XLIFF file does not contain full localization data. ID or target translation for one of the trans-unit nodes is not present.'));
-							}
-						});
-
-						files.push({ messages: messages, originalFilePath: originalFilePath, language: language });
+					const skippedUnits: string[] = [];
+					const units = collectUnits(file, isVersion2 ? 'unit' : 'trans-unit', []);
+					units.forEach((unit: any) => {
+						const key = unit.$ && unit.$.id;
+						const target = getValue(unit, 'target');
+						if (forceLanguage && target === undefined) {
+							return; // No translation available
+						}
+
+						const val = forceLanguage ? target : target || getValue(unit, 'source');
+						if (key && val && !unresolved) {
+							messages[key] = decodeEntities(val);
+						} else {
+							skippedUnits.push(key || '(no id)');
+						}
+					});
+
+					if (units.length > 0) {
+						files.push({ messages, originalFilePath, language, skippedUnits });
 					}
 				});
 
@@ -575,15 +1169,282 @@ export class XLF {
 	}
 }
 
-export function createXlfFiles(projectName: string, extensionName: string, language?: Language): ThroughStream {
+interface PoItem {
+	key: string;
+	index: number;
+	message: string;
+	comment?: string[];
+	target?: string;
+}
+
+export type ParsedPO = ParsedXLF;
+
+/**
+ * Writes and parses gettext PO files. Every message is identified by `msgctxt` consisting
+ * of the original file path and the key separated by `|`. A POT template is written if no
+ * target language is specified.
+ */
+export class PO {
+	private files: Map<PoItem[]>;
+	private target?: string;
+
+	constructor(public project: string, target?: string) {
+		this.files = Object.create(null);
+		this.target = target;
+	}
+
+	public toString(): string {
+		const buffer: string[] = [
+			'msgid ""',
+			'msgstr ""',
+			quotePoString(`Project-Id-Version: ${this.project}\n`)
+		];
+		if (this.target) {
+			buffer.push(quotePoString(`Language: ${getPoLanguage(this.target)}\n`));
+		}
+		buffer.push(
+			quotePoString('MIME-Version: 1.0\n'),
+			quotePoString('Content-Type: text/plain; charset=UTF-8\n'),
+			quotePoString('Content-Transfer-Encoding: 8bit\n'));
+
+		for (const file in this.files) {
+			for (const item of this.files[file]) {
+				buffer.push('');
+				if (item.comment) {
+					item.comment.forEach(comment => comment.split(/\r?\n/).forEach(line => buffer.push(`#. ${line}`)));
+				}
+				buffer.push(
+					`msgctxt ${quotePoString(`${file}|${item.key}`)}`,
+					`msgid ${quotePoString(item.message)}`,
+					`msgstr ${quotePoString(item.target || '')}`);
+			}
+		}
+		return buffer.join('\n') + '\n';
+	}
+
+	public addFile(original: string, keys: KeyInfo[], messages: MessageInfo[]) {
+		if (keys.length === 0) {
+			return;
+		}
+		if (keys.length !== messages.length) {
+			throw new Error(`Un-matching keys(${keys.length}) and messages(${messages.length}).`);
+		}
+
+		this.files[original] = [];
+		const existingKeys: Set<string> = new Set();
+
+		for (let i = 0; i < keys.length; i++) {
+			const keyInfo = keys[i];
+			const key = KeyInfo.key(keyInfo);
+			// Skip duplicates and tombstones of removed keys.
+			if (key === '' || existingKeys.has(key)) {
+				continue;
+			}
+			existingKeys.add(key);
+
+			const messageInfo = messages[i];
+			const comment = KeyInfo.comment(keyInfo) ?? MessageInfo.comment(messageInfo);
+			this.files[original].push({ key, index: i, message: MessageInfo.message(messageInfo), comment });
+		}
+	}
+
+	public setLanguageBundle(original: string, translation: string[]) {
+		const file = this.files[original];
+		if (!file) {
+			throw new Error(`Un-matching original(${original}).`);
+		}
+		if (!translation) {
+			throw new Error(`Missing target(${original}).`);
+		}
+
+		for (const item of file) {
+			item.target = translation[item.index];
+		}
+	}
+
+	public setLanguagePackage(original: string, translation: PackageJsonMessageBundle) {
+		const file = this.files[original];
+		if (!file) {
+			throw new Error(`Un-matching original(${original}).`);
+		}
+		if (!translation) {
+			throw new Error(`Missing target(${original}).`);
+		}
+
+		for (const key in translation) {
+			const entry = file.find(item => item.key === key);
+			if (!entry) {
+				throw new Error(`Un-matching key(${key}) in original(${original}).`);
+			}
+			entry.target = translation[key];
+		}
+	}
+
+	/**
+	 * Parses the messages of a PO or POT file. Untranslated and fuzzy messages are skipped
+	 * if `forceLanguage` is set, otherwise the original messages are used for them. Keys of
+	 * the skipped fuzzy messages are reported in `skippedUnits`.
+	 */
+	static parse(poString: string, forceLanguage: boolean = true): ParsedPO[] {
+		interface Entry {
+			fuzzy: boolean;
+			fields: Map<string>;
+		}
+		const entries: Entry[] = [];
+		let entry: Entry | undefined;
+		let field: string | undefined;
+		poString.split(/\r?\n/).forEach((line, index) => {
+			line = line.trim();
+			if (line.length === 0) {
+				entry = undefined;
+				return;
+			}
+			if (line[0] === '#') {
+				// Comments precede the keywords of the next entry.
+				if (entry && field) {
+					entry = undefined;
+				}
+				if (!entry) {
+					entries.push(entry = { fuzzy: false, fields: Object.create(null) });
+					field = undefined;
+				}
+				if (/^#,.*\bfuzzy\b/.test(line)) {
+					entry.fuzzy = true;
+				}
+				return;
+			}
+			const match = line.match(/^(msgctxt|msgid|msgid_plural|msgstr(?:\[\d+\])?)\s+(".*")$/);
+			if (match) {
+				// A keyword following the translation starts the next entry, even without an empty line.
+				if (!entry || entry.fields[match[1]] !== undefined || (field && /^msgstr/.test(field) && !/^msgstr/.test(match[1]))) {
+					entries.push(entry = { fuzzy: false, fields: Object.create(null) });
+				}
+				field = match[1];
+				entry.fields[field] = unquotePoString(match[2]);
+			} else if (line[0] === '"' && entry && field) {
+				entry.fields[field] += unquotePoString(line);
+			} else {
+				throw new Error(`Invalid PO syntax on line ${index + 1}: ${line}`);
+			}
+		});
+
+		let language = '';
+		const files: Map<ParsedPO> = Object.create(null);
+		entries.forEach(({ fuzzy, fields }) => {
+			const context = fields['msgctxt'];
+			const id = fields['msgid'];
+			if (id === undefined) {
+				return;
+			}
+			if (context === undefined) {
+				if (id === '') {
+					// The header declares the target language like pt_BR.
+					const header = (fields['msgstr'] || '').match(/^Language:\s*(\S+)/m);
+					language = header ? header[1].replace(/_/g, '-').toLowerCase() : '';
+					return;
+				}
+				throw new Error(`PO entry for message "${id}" does not contain msgctxt to determine the original location and key.`);
+			}
+			const separator = context.indexOf('|');
+			if (separator < 0) {
+				throw new Error(`PO entry context "${context}" does not contain the original location and key separated by "|".`);
+			}
+			const originalFilePath = context.substr(0, separator);
+			const key = context.substr(separator + 1);
+			const file = files[originalFilePath] || (files[originalFilePath] = { messages: {}, originalFilePath, language: '', skippedUnits: [] });
+			const translation = fields['msgstr'] !== undefined ? fields['msgstr'] : fields['msgstr[0]'];
+			if (translation && !fuzzy) {
+				file.messages[key] = translation;
+			} else if (!forceLanguage) {
+				file.messages[key] = id;
+			} else if (translation) {
+				file.skippedUnits.push(key);
+			}
+		});
+		if (forceLanguage && !language) {
+			throw new Error('PO file header does not contain the Language field to determine translated language.');
+		}
+		return Object.keys(files).map(originalFilePath => Object.assign(files[originalFilePath], { language }));
+	}
+}
+
+function quotePoString(value: string): string {
+	return '"' + value.replace(/[\\"\n\r\t]/g, character => {
+		switch (character) {
+			case '\n': return '\\n';
+			case '\r': return '\\r';
+			case '\t': return '\\t';
+			default: return '\\' + character;
+		}
+	}) + '"';
+}
+
+function unquotePoString(value: string): string {
+	// Octal and hexadecimal escapes are bytes of the UTF-8 encoded text.
+	return value.substring(1, value.length - 1).replace(/(?:\\(?:[0-7]{1,3}|x[0-9a-fA-F]{1,2}))+|\\(.)/g, (match, character: string | undefined) => {
+		if (character === undefined) {
+			const bytes = match.split('\\').slice(1).map(escape => escape[0] === 'x' ? parseInt(escape.substr(1), 16) : parseInt(escape, 8));
+			return Buffer.from(bytes).toString('utf8');
+		}
+		switch (character) {
+			case 'a': return '\x07';
+			case 'b': return '\b';
+			case 'f': return '\f';
+			case 'n': return '\n';
+			case 'r': return '\r';
+			case 't': return '\t';
+			case 'v': return '\v';
+			case '\\':
+			case '"':
+			case '\'':
+			case '?':
+				return character;
+			default:
+				throw new Error(`PO string ${value} contains an invalid escape sequence \\${character}.`);
+		}
+	});
+}
+
+/**
+ * Converts a language id like pt-br to the gettext locale like pt_BR.
+ */
+function getPoLanguage(languageId: string): string {
+	const [language, ...subtags] = languageId.split('-');
+	return [language.toLowerCase()].concat(subtags.map(subtag => subtag.length === 2 ? subtag.toUpperCase() : subtag)).join('_');
+}
+
+interface ExchangeFile {
+	addFile(original: string, keys: KeyInfo[], messages: MessageInfo[]): void;
+	setLanguageBundle(original: string, translation: string[]): void;
+	setLanguagePackage(original: string, translation: PackageJsonMessageBundle): void;
+	toString(): string;
+}
+
+export function createXlfFiles(projectName: string, extensionName: string, language?: Language, version: XliffVersion = '1.2'): ThroughStream {
+	const languageId = language && language.id;
+	return createExchangeFiles(language, () => new XLF(projectName, languageId, version),
+		path.join(projectName, `${extensionName}${languageId ? '.' + languageId : ''}.xlf`));
+}
+
+/**
+ * Creates a POT file with the English messages, or a PO file with the translated messages
+ * from `nls.bundle.<language>.json` and `package.nls.<language>.json`, if `language` is set.
+ */
+export function createPoFiles(projectName: string, extensionName: string, language?: Language): ThroughStream {
+	const languageId = language && language.id;
+	return createExchangeFiles(language, () => new PO(projectName, languageId),
+		path.join(projectName, languageId ? `${extensionName}.${languageId}.po` : `${extensionName}.pot`));
+}
+
+function createExchangeFiles(language: Language | undefined, createFile: () => ExchangeFile, fileName: string): ThroughStream {
 	const { id: languageId } = language || {};
-	let _xlf: XLF;
+	let _xlf: ExchangeFile;
 	let header: BundledMetaDataHeader | undefined;
 	let data: BundledMetaDataFile | undefined;
 	let packageBundle: PackageJsonMessageBundle, bundle: MessageBundle;
 	function getXlf() {
 		if (!_xlf) {
-			_xlf = new XLF(projectName, languageId);
+			_xlf = createFile();
 		}
 		return _xlf;
 	}
@@ -633,7 +1494,7 @@ export function createXlfFiles(projectName: string, extensionName: string, langu
 		}
 		if (_xlf) {
 			const xlfFile = new File({
-				path: path.join(projectName, `${extensionName}${languageId ? '.' + languageId : ''}.xlf`),
+				path: fileName,
 				contents: Buffer.from(_xlf.toString(), 'utf8')
 			});
 			this.queue(xlfFile);
@@ -923,6 +1784,9 @@ export function prepareJsonFiles(languages?: Language[], prolog: string | string
 		parsePromise.then(
 			function (resolvedFiles) {
 				resolvedFiles.forEach(file => {
+					if (file.skippedUnits.length > 0) {
+						log(`Skipped units of ${file.originalFilePath} in ${xlf.relative}: ${file.skippedUnits.join(', ')}`);
+					}
 					const language = file.language;
 					const { folderName } = languages?.find(({ id }) => id === language) || {};
 					const translatedFile = createI18nFile(folderName, file.originalFilePath, file.messages, prolog);
@@ -937,6 +1801,28 @@ export function prepareJsonFiles(languages?: Language[], prolog: string | string
 	});
 }
 
+/**
+ * Converts translated PO files to `.i18n.json` files in the language folders like `prepareJsonFiles`.
+ */
+export function preparePoJsonFiles(languages?: Language[], prolog: string | string[] = ''): ThroughStream {
+	return through(function (this: ThroughStream, po: File) {
+		let resolvedFiles: ParsedPO[];
+		try {
+			resolvedFiles = PO.parse(po.contents!.toString(), !!(languages && languages.length));
+		} catch (error) {
+			this.emit('error', `Failed to parse ${po.relative}: ${(error as Error).message}`);
+			return;
+		}
+		resolvedFiles.forEach(file => {
+			if (file.skippedUnits.length > 0) {
+				log(`Skipped fuzzy messages of ${file.originalFilePath} in ${po.relative}: ${file.skippedUnits.join(', ')}`);
+			}
+			const { folderName } = languages?.find(({ id }) => id === file.language) || {};
+			this.queue(createI18nFile(folderName, file.originalFilePath, file.messages, prolog));
+		});
+	});
+}
+
 function createI18nFile(folderName: string | undefined, originalFilePath: string, messages: Map<string>, prolog: string | string[]): File {
 	const content = (Array.isArray(prolog) ? prolog.join('\n') + '\n' : prolog) +
 		JSON.stringify(messages, null, '\t').replace(/\r\n/g, '\n');
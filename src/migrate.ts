@@ -0,0 +1,68 @@
+#!/usr/bin/env node
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+'use strict';
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+import * as yargs from 'yargs';
+import * as glob from 'glob';
+
+import { migrateToL10n } from './lib';
+
+const argv = yargs
+	.usage('Usage: vscl-migrate [options] files')
+	.option('l10n', {
+		describe: 'The namespace of the l10n API, vscode.l10n by default.',
+		string: true,
+		demand: false
+	})
+	.option('module', {
+		alias: 'm',
+		describe: 'Additional module specifier to recognise as the vscode-nls run-time. Can be repeated.',
+		string: true,
+		array: true,
+		demand: false
+	})
+	.option('factoryMethod', {
+		alias: 'f',
+		describe: 'Additional factory method name returning a localize function. Can be repeated.',
+		string: true,
+		array: true,
+		demand: false
+	})
+	.option('dryRun', {
+		describe: 'Report the calls, which could not be migrated, without writing the files.',
+		boolean: true,
+		demand: false
+	}).parseSync();
+
+// The files are migrated together to follow localize functions imported from other files.
+const files: string[] = [];
+argv._.forEach(element => {
+	if (typeof element === 'string') {
+		glob.sync(element).forEach(file => files.push(path.resolve(file)));
+	}
+});
+
+const results = migrateToL10n(files.map(file => ({ fileName: file, contents: fs.readFileSync(file, 'utf8') })),
+	{ l10n: argv.l10n, modules: argv.module, factoryMethods: argv.factoryMethod });
+
+let hasError = false;
+results.forEach((result, index) => {
+	const file = path.relative(process.cwd(), files[index]);
+	result.warnings.forEach(warning => console.warn(`${file}${warning}`));
+	if (result.errors.length > 0) {
+		// Files with calls, which could not be migrated, are left intact.
+		result.errors.forEach(error => console.error(`${file}${error}`));
+		hasError = true;
+	} else if (result.contents !== undefined && !argv.dryRun) {
+		fs.writeFileSync(files[index], result.contents, { encoding: 'utf8' });
+	}
+});
+if (hasError) {
+	process.exit(1);
+}
@@ -5,6 +5,10 @@
 'use strict';
 
 import * as assert from 'assert';
+import * as os from 'os';
+import * as path from 'path';
+import { SourceMapConsumer, SourceMapGenerator } from 'source-map';
+import * as ts from 'typescript';
 
 import * as nlsDev from '../lib';
 
@@ -26,7 +30,7 @@ suite('Localize', () => {
 		let result = nlsDev.processFile(code.join('\r\n'), undefined, sourceMap);
 
 		assert.strictEqual(result.contents, expected.join('\r\n'));
-		assert.strictEqual(result.sourceMap, '{"version":3,"sources":["test.ts"],"names":[],"mappings":"AAAA,IAAY,GAAG,WAAM,YAAY,CAAC,CAAA;AAClC,IAAI,QAAQ,GAAG,GAAG,CAAC,MAAM,CAAC,EAAE,MAAM,EAAE,OAAO,EAAE,KAAK,EAAE,IAAI,EAAE,CAAC,YAAE,CAAC;AAC9D,QAAQ,CAAC,aAAyB,EAAE,OAAO,CAAC,CAAC","sourceRoot":""}');
+		assert.strictEqual(result.sourceMap, '{"version":3,"sources":["test.ts"],"names":[],"mappings":"AAAA,IAAY,GAAG,WAAM,YAAY,CAAC,CAAA;AAClC,IAAI,QAAQ,GAAG,GAAG,CAAC,MAAM,CAAC,EAAE,MAAM,EAAE,OAAO,EAAE,KAAK,EAAE,IAAI,EAAE,CAAC,YAAE,CAAC;AAC9D,QAAQ,CAAC,GAAgB,UAAS,EAAE,OAAO,CAAC,CAAC","sourceRoot":""}');
 		assert.deepStrictEqual(result.bundle, {
 			messages: [
 				'{0} {1}'
@@ -143,6 +147,593 @@ suite('Localize', () => {
 		assert.strictEqual(result.contents, expected.join('\n'));
 	});
 
+	test('works with named imports', () => {
+		let code: string[] = [
+			'import { loadMessageBundle, config as nlsConfig } from \'vscode-nls\';',
+			'const localize = loadMessageBundle();',
+			'const localize2 = nlsConfig({ locale: \'de-DE\' })();',
+			'localize(\'keyOne\', \'{0} {1}\', \'Hello\', \'World\');',
+			'localize2(\'keyTwo\', \'Two\');'
+		];
+		let result = nlsDev.processFile(code.join('\n'), undefined);
+		let expected: string[] = [
+			'import { loadMessageBundle, config as nlsConfig } from \'vscode-nls\';',
+			'const localize = loadMessageBundle(__filename);',
+			'const localize2 = nlsConfig({ locale: \'de-DE\' })(__filename);',
+			'localize(0, null, \'Hello\', \'World\');',
+			'localize2(1, null);'
+		];
+		assert.strictEqual(result.contents, expected.join('\n'));
+		assert.deepStrictEqual(result.bundle!.keys, ['keyOne', 'keyTwo']);
+	});
+
+	test('works with destructured require', () => {
+		let code: string[] = [
+			'const { loadMessageBundle: load } = require(\'vscode-nls\');',
+			'const localize = load();',
+			'localize(\'keyOne\', \'{0} {1}\', \'Hello\', \'World\');'
+		];
+		let result = nlsDev.processFile(code.join('\n'), undefined);
+		let expected: string[] = [
+			'const { loadMessageBundle: load } = require(\'vscode-nls\');',
+			'const localize = load(__filename);',
+			'localize(0, null, \'Hello\', \'World\');'
+		];
+		assert.strictEqual(result.contents, expected.join('\n'));
+	});
+
+	test('works with compiled named imports', () => {
+		let code: string[] = [
+			'const vscode_nls_1 = require(\'vscode-nls\');',
+			'const localize = (0, vscode_nls_1.loadMessageBundle)();',
+			'localize(\'keyOne\', \'{0} {1}\', \'Hello\', \'World\');'
+		];
+		let result = nlsDev.processFile(code.join('\n'), undefined);
+		let expected: string[] = [
+			'const vscode_nls_1 = require(\'vscode-nls\');',
+			'const localize = (0, vscode_nls_1.loadMessageBundle)(__filename);',
+			'localize(0, null, \'Hello\', \'World\');'
+		];
+		assert.strictEqual(result.contents, expected.join('\n'));
+	});
+
+	test('works with esbuild and babel interop helpers', () => {
+		let code: string[] = [
+			'var nls = __toESM(require(\'vscode-nls\'), 1);',
+			'var _nls = _interopRequireWildcard(require("vscode-nls"));',
+			'var localize = nls.loadMessageBundle();',
+			'var localize2 = (0, _nls.config)({})();',
+			'localize(\'keyOne\', \'One\');',
+			'localize2(\'keyTwo\', \'Two\');'
+		];
+		let result = nlsDev.processFile(code.join('\n'), undefined);
+		let expected: string[] = [
+			'var nls = __toESM(require(\'vscode-nls\'), 1);',
+			'var _nls = _interopRequireWildcard(require("vscode-nls"));',
+			'var localize = nls.loadMessageBundle(__filename);',
+			'var localize2 = (0, _nls.config)({})(__filename);',
+			'localize(0, null);',
+			'localize2(1, null);'
+		];
+		assert.strictEqual(result.contents, expected.join('\n'));
+	});
+
+	test('custom modules and factory methods', () => {
+		let code: string[] = [
+			'import * as nls from \'./nls\';',
+			'import { loadBundle } from \'vscode-nls-i18n\';',
+			'const localize = nls.loadBundle();',
+			'const localize2 = loadBundle();',
+			'localize(\'keyOne\', \'One\');',
+			'localize2(\'keyTwo\', \'Two\');'
+		];
+		let result = nlsDev.processFile(code.join('\n'), undefined, undefined, {
+			modules: ['./nls', 'vscode-nls-i18n'],
+			factoryMethods: ['loadBundle']
+		});
+		let expected: string[] = [
+			'import * as nls from \'./nls\';',
+			'import { loadBundle } from \'vscode-nls-i18n\';',
+			'const localize = nls.loadBundle(__filename);',
+			'const localize2 = loadBundle(__filename);',
+			'localize(0, null);',
+			'localize2(1, null);'
+		];
+		assert.strictEqual(result.contents, expected.join('\n'));
+
+		result = nlsDev.processFile(code.join('\n'), undefined);
+		assert.strictEqual(result.contents, undefined);
+	});
+
+	test('follows localize through aliases, properties and exports', () => {
+		let code: string[] = [
+			'import * as nls from \'vscode-nls\';',
+			'export const localize = nls.loadMessageBundle();',
+			'const l = localize;',
+			'const strings = { localize, other: l };',
+			'class View {',
+			'    field = localize;',
+			'    constructor() { this.own = l; }',
+			'    render() { this.field(\'one\', \'One\'); this.own(\'two\', \'Two\'); }',
+			'}',
+			'function helper(fn) { return fn(\'three\', \'Three\'); }',
+			'helper(l);',
+			'strings.localize(\'four\', \'Four\');',
+			'strings.other(\'five\', \'Five\');',
+			'export { l };'
+		];
+		let result = nlsDev.processFile(code.join('\n'), undefined);
+		assert.deepStrictEqual(result.errors, []);
+		assert.deepStrictEqual(result.bundle!.keys, ['one', 'two', 'three', 'four', 'five']);
+		assert.ok(!/'(?:one|two|three|four|five)'/.test(result.contents!));
+	});
+
+	test('reports untrackable localize usages', () => {
+		let code: string[] = [
+			'var nls = require(\'vscode-nls\');',
+			'var localize = nls.loadMessageBundle();',
+			'var list = [localize];',
+			'external(localize);',
+			'localize(\'key\');'
+		];
+		let result = nlsDev.processFile(code.join('\n'), undefined);
+		assert.deepStrictEqual(result.errors, [
+			'(3,13): localize function (bound to localize) used in an unusual way: stored in an array literal.',
+			'(4,10): localize function (bound to localize) used in an unusual way: passed to external, which is not a function of the analysed files.',
+			'(5,1): localize function (bound to localize) used in an unusual way: called with less than two arguments.'
+		]);
+	});
+
+	test('processes localize functions shared by project files', () => {
+		let results = nlsDev.processProject([
+			{
+				fileName: '/src/nls.js',
+				contents: [
+					'import * as nls from \'vscode-nls\';',
+					'export const localize = nls.loadMessageBundle();'
+				].join('\n')
+			},
+			{
+				fileName: '/src/view.js',
+				contents: [
+					'import { localize } from \'./nls\';',
+					'localize(\'view\', \'View\');'
+				].join('\n')
+			},
+			{
+				fileName: '/src/model.js',
+				contents: [
+					'import * as nls from \'./nls\';',
+					'nls.localize(\'model\', \'Model\');'
+				].join('\n')
+			}
+		]);
+		assert.deepStrictEqual(results.map(result => result.errors), [[], [], []]);
+		assert.strictEqual(results[0].contents, [
+			'import * as nls from \'vscode-nls\';',
+			'export const localize = nls.loadMessageBundle(__filename);'
+		].join('\n'));
+		assert.deepStrictEqual(results[0].bundle, { messages: ['View', 'Model'], keys: ['view', 'model'] });
+		assert.strictEqual(results[1].contents, [
+			'import { localize } from \'./nls\';',
+			'localize(0, null);'
+		].join('\n'));
+		assert.strictEqual(results[1].bundle, undefined);
+		assert.strictEqual(results[2].contents, [
+			'import * as nls from \'./nls\';',
+			'nls.localize(1, null);'
+		].join('\n'));
+		assert.strictEqual(results[2].bundle, undefined);
+	});
+
+	test('processes TypeScript sources', () => {
+		let code: string[] = [
+			'import * as nls from \'vscode-nls\';',
+			'const localize: nls.LocalizeFunc = nls.loadMessageBundle();',
+			'export class View<T> {',
+			'    private readonly label: string = localize(\'label\', \'Label\');',
+			'    render(item: T): string {',
+			'        return (localize as nls.LocalizeFunc)({ key: \'item\', comment: [\'An item\'] }, \'Item {0}\', String(item));',
+			'    }',
+			'}'
+		];
+		let result = nlsDev.processFile(code.join('\n'), undefined, undefined, { fileName: 'view.ts' });
+		assert.deepStrictEqual(result.errors, []);
+		assert.deepStrictEqual(result.bundle, {
+			messages: ['Label', 'Item {0}'],
+			keys: ['label', { key: 'item', comment: ['An item'] }]
+		});
+		assert.strictEqual(result.contents!.split('\n')[5], '        return (localize as nls.LocalizeFunc)(1, null, String(item));');
+
+		let extracted = nlsDev.extractLocalizeCalls(code.join('\n'), 'view.tsx');
+		assert.deepStrictEqual(extracted.errors, []);
+		assert.deepStrictEqual(extracted.calls, [
+			{ key: 'label', message: 'Label', comment: undefined, index: 0, position: { line: 3, character: 37 } },
+			{ key: 'item', message: 'Item {0}', comment: ['An item'], index: 1, position: { line: 5, character: 15 } }
+		]);
+	});
+
+	test('transforms TypeScript sources', () => {
+		let code: string[] = [
+			'import * as nls from \'vscode-nls\';',
+			'const localize = nls.loadMessageBundle();',
+			'export const label: string = localize({ key: \'label\', comment: [\'A label\'] }, \'Label \' + \'{0}\', 1);'
+		];
+		let bundles: { fileName: string, bundle: nlsDev.JavaScriptMessageBundle | undefined, errors: string[] }[] = [];
+		let transformer = nlsDev.createLocalizeTransformer((fileName, bundle, errors) => bundles.push({ fileName, bundle, errors }), { rootDir: 'src' });
+		let output = ts.transpileModule(code.join('\n'), {
+			fileName: 'src/view.ts',
+			compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2017, newLine: ts.NewLineKind.LineFeed },
+			transformers: { before: [transformer] }
+		});
+		assert.deepStrictEqual(bundles, [{
+			fileName: 'src/view.ts',
+			bundle: { messages: ['Label {0}'], keys: [{ key: 'label', comment: ['A label'] }] },
+			errors: []
+		}]);
+		let lines = output.outputText.split('\n');
+		assert.ok(lines.indexOf('const localize = nls.loadMessageBundle(require("path").join(__dirname, "view.js"));') >= 0);
+		assert.ok(lines.indexOf('exports.label = localize(0, null, 1);') >= 0);
+	});
+
+	test('concatenated messages', () => {
+		let code: string[] = [
+			'var nls = require(\'vscode-nls\');',
+			'var localize = nls.loadMessageBundle();',
+			'localize(\'keyOne\', \'Hello \' + "big " + (`wide ` + \'World\'));'
+		];
+		let result = nlsDev.processFile(code.join('\n'), undefined);
+		let expected: string[] = [
+			'var nls = require(\'vscode-nls\');',
+			'var localize = nls.loadMessageBundle(__filename);',
+			'localize(0, null);'
+		];
+		assert.deepStrictEqual(result.errors, []);
+		assert.strictEqual(result.contents, expected.join('\n'));
+		assert.deepStrictEqual(result.bundle, { messages: ['Hello big wide World'], keys: ['keyOne'] });
+	});
+
+	test('multi-line template literal messages', () => {
+		let code: string[] = [
+			'var nls = require(\'vscode-nls\');',
+			'var localize = nls.loadMessageBundle();',
+			'localize(\'keyOne\', `first line',
+			'second line`);'
+		];
+		let result = nlsDev.processFile(code.join('\n'), undefined);
+		assert.deepStrictEqual(result.errors, []);
+		assert.deepStrictEqual(result.bundle, { messages: ['first line\nsecond line'], keys: ['keyOne'] });
+	});
+
+	test('multi-line patches', () => {
+		let code: string[] = [
+			'var nls = require(\'vscode-nls\');',
+			'var localize = nls.loadMessageBundle();',
+			'localize({',
+			'	key: \'keyOne\',',
+			'	comment: [\'comment\']',
+			'}, \'Hello \' +',
+			'	\'World\', args);',
+			'var done = true;'
+		];
+		let tokens = ['var', 'nls', 'localize', 'key', '\'keyOne\'', '\'Hello \'', '\'World\'', 'args', 'done', 'true'];
+		let generator = new SourceMapGenerator({ file: 'test.js' });
+		code.forEach((line, index) => tokens.forEach(token => {
+			for (let column = line.indexOf(token); column >= 0; column = line.indexOf(token, column + 1)) {
+				generator.addMapping({ source: 'test.ts', original: { line: index + 11, column: column + 2 }, generated: { line: index + 1, column } });
+			}
+		}));
+		let result = nlsDev.processFile(code.join('\n'), undefined, generator.toString());
+		let expected: string[] = [
+			'var nls = require(\'vscode-nls\');',
+			'var localize = nls.loadMessageBundle(__filename);',
+			'localize(0, null, args);',
+			'var done = true;'
+		];
+		assert.deepStrictEqual(result.errors, []);
+		assert.strictEqual(result.contents, expected.join('\n'));
+
+		let before = new SourceMapConsumer(JSON.parse(generator.toString()));
+		let after = new SourceMapConsumer(JSON.parse(result.sourceMap!));
+		let positionOf = (lines: string[], token: string, occurrence: number) => {
+			let text = lines.join('\n');
+			let offset = -1;
+			for (let i = 0; i <= occurrence; i++) {
+				offset = text.indexOf(token, offset + 1);
+			}
+			let preceding = text.substring(0, offset).split('\n');
+			return { line: preceding.length, column: preceding[preceding.length - 1].length };
+		};
+		(<[string, number][]>[['var', 0], ['nls', 1], ['localize', 1], ['args', 0], ['var', 2], ['done', 0], ['true', 0]]).forEach(([token, occurrence]) => {
+			assert.deepStrictEqual(after.originalPositionFor(positionOf(expected, token, occurrence)), before.originalPositionFor(positionOf(code, token, occurrence)), token);
+		});
+		// The replaced key maps to the original key location.
+		assert.deepStrictEqual(after.originalPositionFor({ line: 3, column: 9 }), before.originalPositionFor({ line: 4, column: 1 }));
+	});
+
+	test('indexed and inline source maps', () => {
+		let code: string[] = [
+			'var nls = require(\'vscode-nls\');',
+			'var localize = nls.loadMessageBundle();',
+			'localize(\'keyOne\', \'Hello\');'
+		];
+		let generator = new SourceMapGenerator({ file: 'test.js' });
+		code.forEach((_line, index) => generator.addMapping({ source: 'test.ts', original: { line: index + 1, column: 0 }, generated: { line: index + 1, column: 0 } }));
+		generator.addMapping({ source: 'test.ts', original: { line: 3, column: 20 }, generated: { line: 3, column: 20 } });
+		generator.setSourceContent('test.ts', 'original source');
+		let sectioned = { version: 3, sections: [{ offset: { line: 0, column: 0 }, map: JSON.parse(generator.toString()) }] };
+
+		let result = nlsDev.processFile(code.join('\n'), undefined, sectioned);
+		assert.strictEqual(result.contents, 'var nls = require(\'vscode-nls\');\nvar localize = nls.loadMessageBundle(__filename);\nlocalize(0, null);');
+		let sourceMap = JSON.parse(result.sourceMap!);
+		assert.deepStrictEqual(sourceMap.sourcesContent, ['original source']);
+		assert.deepStrictEqual(new SourceMapConsumer(sourceMap).originalPositionFor({ line: 3, column: 12 }), { source: 'test.ts', line: 3, column: 20, name: null });
+
+		let lineGenerator = new SourceMapGenerator({ file: 'test.js' });
+		lineGenerator.addMapping({ source: 'line.ts', original: { line: 7, column: 0 }, generated: { line: 1, column: 0 } });
+		lineGenerator.addMapping({ source: 'line.ts', original: { line: 7, column: 20 }, generated: { line: 1, column: 20 } });
+		result = nlsDev.processFile(code.join('\n'), undefined, { version: 3, sections: [{ offset: { line: 2, column: 0 }, map: JSON.parse(lineGenerator.toString()) }] });
+		assert.deepStrictEqual(new SourceMapConsumer(JSON.parse(result.sourceMap!)).originalPositionFor({ line: 3, column: 12 }), { source: 'line.ts', line: 7, column: 20, name: null });
+
+		let inlined = code.concat('//# sourceMappingURL=data:application/json;charset=utf-8;base64,' + Buffer.from(generator.toString()).toString('base64'));
+		result = nlsDev.processFile(inlined.join('\n'), undefined);
+		let lines = result.contents!.split('\n');
+		assert.strictEqual(lines[3], '//# sourceMappingURL=data:application/json;charset=utf-8;base64,' + Buffer.from(result.sourceMap!).toString('base64'));
+		assert.deepStrictEqual(new SourceMapConsumer(JSON.parse(result.sourceMap!)).originalPositionFor({ line: 3, column: 12 }), { source: 'test.ts', line: 3, column: 20, name: null });
+
+		// Only the source map at the end of the file is used.
+		let quoted = '// //# sourceMappingURL=data:application/json;base64,e30=';
+		result = nlsDev.processFile([quoted].concat(inlined).join('\n') + '\n', undefined);
+		lines = result.contents!.split('\n');
+		assert.strictEqual(lines[0], quoted);
+		assert.strictEqual(lines[4], '//# sourceMappingURL=data:application/json;charset=utf-8;base64,' + Buffer.from(result.sourceMap!).toString('base64'));
+		assert.strictEqual(lines[5], '');
+	});
+
+	test('non-constant message parts', () => {
+		let code: string[] = [
+			'var nls = require(\'vscode-nls\');',
+			'var localize = nls.loadMessageBundle();',
+			'localize(\'keyOne\', \'Hello \' + name);',
+			'localize(\'keyTwo\', `Hello ${name}`);'
+		];
+		let result = nlsDev.processFile(code.join('\n'), undefined);
+		assert.deepStrictEqual(result.errors, [
+			'(3,19): second argument of a localize call must be a string literal.',
+			'(4,19): second argument of a localize call must be a string literal.'
+		]);
+	});
+
+	test('message placeholders', () => {
+		let code: string[] = [
+			'var nls = require(\'vscode-nls\');',
+			'var localize = nls.loadMessageBundle();',
+			'localize(\'keyOne\', \'{0} and {1}\', \'one\');',
+			'localize(\'keyTwo\', \'{1} and {0}\', \'one\', \'two\', \'three\');',
+			'localize(\'keyThree\', \'{0} and {1}\', ...args);'
+		];
+		let result = nlsDev.processFile(code.join('\n'), undefined, undefined, { placeholders: 'error' });
+		assert.deepStrictEqual(result.errors, [
+			'(3,19): placeholder {1} in the message has no argument in the localize call.',
+			'(4,48): argument 2 of the localize call is not used in the message as {2}.'
+		]);
+		// Reordered placeholders are valid and reported as warnings at most.
+		assert.deepStrictEqual(result.warnings, ['(4,19): placeholders in the message are out of order: {1} precedes {0}.']);
+
+		result = nlsDev.processFile(code.join('\n'), undefined);
+		assert.deepStrictEqual(result.errors, []);
+		assert.strictEqual(result.warnings.length, 3);
+
+		result = nlsDev.processFile(code.join('\n'), undefined, undefined, { placeholders: 'ignore' });
+		assert.deepStrictEqual(result.errors, []);
+		assert.deepStrictEqual(result.warnings, []);
+	});
+
+	test('escape sequences in messages', () => {
+		let code: string[] = [
+			'var nls = require(\'vscode-nls\');',
+			'var localize = nls.loadMessageBundle();',
+			'localize(\'simple\', \'\\n\\r\\t\\b\\f\\v\\0\\\\\\\'\\"\');',
+			'localize(\'hex\', \'\\x41\\x7e\');',
+			'localize(\'unicode\', "\\u00e9\\u{1F600}\\u{41}");',
+			'localize(\'identity\', \'\\a\\q\\$\');',
+			'localize(\'continuation\', \'one \\',
+			'two\');',
+			'localize(\'template\', `\\u00e9\\t\\``);'
+		];
+		let result = nlsDev.processFile(code.join('\n'), undefined);
+		assert.deepStrictEqual(result.errors, []);
+		assert.deepStrictEqual(result.bundle!.messages, [
+			'\n\r\t\b\f\v\0\\\'"',
+			'A~',
+			'\u00e9\u{1F600}A',
+			'aq$',
+			'one two',
+			'\u00e9\t`'
+		]);
+	});
+
+	test('escape sequences in keys and comments', () => {
+		let code: string[] = [
+			'var nls = require(\'vscode-nls\');',
+			'var localize = nls.loadMessageBundle();',
+			'localize(\'key\\x41\\u00e9\', \'message\');',
+			'localize({ key: "key\\tB", comment: [\'line\\none\', `\\u{1F600}`] }, \'message\');'
+		];
+		let result = nlsDev.processFile(code.join('\n'), undefined);
+		assert.deepStrictEqual(result.errors, []);
+		assert.deepStrictEqual(result.bundle!.keys, [
+			'keyA\u00e9',
+			{ key: 'key\tB', comment: ['line\none', '\u{1F600}'] }
+		]);
+	});
+
+	test('duplicate keys', () => {
+		let code: string[] = [
+			'var nls = require(\'vscode-nls\');',
+			'var localize = nls.loadMessageBundle();',
+			'localize(\'keyOne\', \'Hello\');',
+			'localize(\'keyTwo\', \'World\');',
+			'localize(\'keyOne\', \'Hello\');',
+			'localize(\'keyTwo\', \'Earth\');'
+		];
+		let result = nlsDev.processFile(code.join('\n'), undefined);
+		assert.deepStrictEqual(result.errors, ['(6,10): key keyTwo is already used with a different message at (4,1).']);
+		assert.deepStrictEqual(result.bundle, { messages: ['Hello', 'World', 'Earth'], keys: ['keyOne', 'keyTwo', 'keyTwo'] });
+		assert.strictEqual(result.contents!.split('\n')[4], 'localize(0, null);');
+
+		result = nlsDev.processFile(code.join('\n'), undefined, undefined, { duplicates: 'warning' });
+		assert.deepStrictEqual(result.errors, []);
+		assert.deepStrictEqual(result.warnings, ['(6,10): key keyTwo is already used with a different message at (4,1).']);
+		assert.deepStrictEqual(result.bundle, { messages: ['Hello', 'World'], keys: ['keyOne', 'keyTwo'] });
+		assert.strictEqual(result.contents!.split('\n')[5], 'localize(1, null);');
+
+		assert.deepStrictEqual(Object.assign({}, nlsDev.bundle2keyValuePair({ messages: ['Hello', 'Hello'], keys: ['keyOne', 'keyOne'] })), { keyOne: 'Hello' });
+		assert.throws(() => nlsDev.bundle2keyValuePair({ messages: ['World', 'Earth'], keys: ['keyTwo', 'keyTwo'] }), /keyTwo/);
+
+		let bundler = new nlsDev.MetaDataBundler('ext', 'out');
+		bundler.add({ filePath: 'a', messages: ['Hello', 'World'], keys: ['keyOne', 'keyTwo'] });
+		bundler.add({ filePath: 'b', messages: ['Hello', 'Earth'], keys: ['keyOne', { key: 'keyTwo', comment: [] }] });
+		assert.deepStrictEqual(bundler.conflicts(), [{ key: 'keyTwo', usages: [{ filePath: 'a', message: 'World' }, { filePath: 'b', message: 'Earth' }] }]);
+	});
+
+	test('stable message indexes', () => {
+		let code: string[] = [
+			'var nls = require(\'vscode-nls\');',
+			'var localize = nls.loadMessageBundle();',
+			'localize(\'keyNew\', \'New\');',
+			'localize(\'keyThree\', \'Three\');',
+			'localize(\'keyOne\', \'One\');'
+		];
+		let result = nlsDev.processFile(code.join('\n'), undefined, undefined, { keyOrder: ['keyOne', 'keyTwo', 'keyThree', null] });
+		assert.deepStrictEqual(result.errors, []);
+		assert.deepStrictEqual(result.keyOrder, ['keyOne', null, 'keyThree', null, 'keyNew']);
+		assert.deepStrictEqual(result.bundle, { messages: ['One', '', 'Three', '', 'New'], keys: ['keyOne', '', 'keyThree', '', 'keyNew'] });
+		assert.deepStrictEqual(result.contents!.split('\n').slice(2), ['localize(4, null);', 'localize(2, null);', 'localize(0, null);']);
+
+		let resolved = nlsDev.resolveMessageBundle(result.bundle!);
+		let problems: nlsDev.Problem[] = [];
+		assert.deepStrictEqual(nlsDev.ResolvedJavaScriptMessageBundle.asTranslatedMessages(resolved, { keyOne: 'Eins', keyThree: 'Drei', keyNew: 'Neu' }, problems), ['Eins', '', 'Drei', '', 'Neu']);
+		assert.deepStrictEqual(problems, []);
+		assert.deepStrictEqual(Object.keys(nlsDev.bundle2keyValuePair(result.bundle!)), ['keyOne', 'keyThree', 'keyNew']);
+	});
+
+	test('placeholders and mnemonics of translations', () => {
+		let bundle = nlsDev.resolveMessageBundle({ messages: ['{0} of {1}', '&&Open', 'Close'], keys: ['count', 'open', 'close'] }) as nlsDev.ResolvedJavaScriptMessageBundle;
+		let translations = { count: '{ 0 } von {1}', open: 'Öffnen', close: 'Schließen' };
+		let problems: nlsDev.Problem[] = [];
+		assert.deepStrictEqual(nlsDev.ResolvedJavaScriptMessageBundle.asTranslatedMessages(bundle, translations, problems), ['{ 0 } von {1}', 'Öffnen', 'Schließen']);
+		assert.deepStrictEqual(problems, [{
+			code: 'invalid-placeholders',
+			severity: 'error',
+			key: 'count',
+			message: 'Placeholders of the localized message for key count do not match the original message: missing {0}; unexpected { 0 }'
+		}, {
+			code: 'invalid-mnemonics',
+			severity: 'error',
+			key: 'open',
+			message: 'Localized message for key open contains 0 mnemonic marker(s) && instead of 1'
+		}]);
+		problems = [];
+		assert.deepStrictEqual(nlsDev.ResolvedJavaScriptMessageBundle.asTranslatedMessages(bundle, translations, problems, true), ['{0} of {1}', '&&Open', 'Schließen']);
+		assert.deepStrictEqual(problems.map(problem => problem.severity), ['warning', 'warning']);
+
+		problems = [];
+		assert.strictEqual(nlsDev.PackageJsonMessageBundle.asTranslatedMessages({ title: 'Open {0}' }, { title: 'Öffnen' }, problems, true).title, 'Open {0}');
+		assert.deepStrictEqual(problems.map(problem => problem.message), ['Placeholders of the localized message for key title do not match the original message: missing {0}']);
+	});
+
+	test('structured problems of localized messages', () => {
+		let bundle = nlsDev.resolveMessageBundle({ messages: ['One'], keys: ['keyOne'] });
+		let result = nlsDev.createLocalizedMessages('main', bundle, 'deu', path.join(os.tmpdir(), 'missing-i18n'), 'out');
+		assert.deepStrictEqual(result.problems, [{
+			code: 'missing-file',
+			severity: 'warning',
+			language: 'deu',
+			file: path.join('deu', 'out', 'main.i18n.json'),
+			message: `Message file ${path.join('deu', 'out', 'main.i18n.json')} not found. Missing messages: 1`
+		}]);
+		assert.deepStrictEqual(nlsDev.Problem.format(result.problems, 'deu'), [
+			'Generating localized messages for \'deu\' resulted in the following problems:',
+			'',
+			`Message file ${path.join('deu', 'out', 'main.i18n.json')} not found. Missing messages: 1`,
+			'',
+			''
+		]);
+	});
+
+	test('pseudo-localization', () => {
+		assert.strictEqual(nlsDev.pseudoLocalize('Open {0}'), '[Öþéñ {0}~~]');
+		assert.strictEqual(nlsDev.pseudoLocalize('&&File $(gear) [docs](https://x.org)', { expansion: 0, brackets: false }), '&&Ƒîĺé $(gear) [đöçš](https://x.org)');
+		assert.strictEqual(nlsDev.pseudoLocalize(''), '');
+		let bundle = nlsDev.resolveMessageBundle({ messages: ['One', ''], keys: ['keyOne', ''] });
+		assert.deepStrictEqual(nlsDev.createPseudoLocalizedMessages(bundle, { expansion: 1 }), ['[Öñé~~~]', '']);
+	});
+
+	test('placeholders in package.json', () => {
+		let packageJson = {
+			contributes: {
+				commands: [{ command: 'ext.open', title: '%command.open%' }, { command: 'ext.close', title: '%command.close%' }],
+				configuration: { properties: { 'ext.enabled': { description: '%config.enabled%' } } }
+			},
+			displayName: 'Extension 100%'
+		};
+		assert.deepStrictEqual(nlsDev.checkPackageJsonPlaceholders(packageJson, { 'command.open': 'Open', 'config.enabled': 'Enabled', 'command.old': 'Old' }), {
+			undefinedKeys: [{ key: 'command.close', path: 'contributes.commands[1].title' }],
+			unusedKeys: ['command.old']
+		});
+		assert.deepStrictEqual(nlsDev.findPackageJsonPlaceholders(packageJson)[2], { key: 'config.enabled', path: 'contributes.configuration.properties["ext.enabled"].description' });
+	});
+
+	test('migration to vscode.l10n', () => {
+		let contents = [
+			'// Header',
+			'import * as nls from \'vscode-nls\';',
+			'import { window } from \'vscode\';',
+			'',
+			'nls.config({ messageFormat: nls.MessageFormat.file });',
+			'const localize = nls.loadMessageBundle();',
+			'',
+			'export function run(name: string) {',
+			'\twindow.showInformationMessage(localize({ key: \'hello\', comment: [\'Greeting\'] }, \'Hello, {0}!\', name));',
+			'\treturn localize(\'bye\', "Bye" /* ! */);',
+			'}'
+		].join('\n');
+		let result = nlsDev.migrateToL10n([{ fileName: 'extension.ts', contents }]);
+		assert.deepStrictEqual(result, [{
+			contents: [
+				'// Header',
+				'import { window } from \'vscode\';',
+				'import * as vscode from \'vscode\';',
+				'',
+				'',
+				'export function run(name: string) {',
+				'\twindow.showInformationMessage(vscode.l10n.t({ message: \'Hello, {0}!\', args: [name], comment: [\'Greeting\'] }));',
+				'\treturn vscode.l10n.t("Bye" /* ! */);',
+				'}'
+			].join('\n'),
+			errors: [],
+			warnings: []
+		}]);
+
+		contents = 'import * as nls from \'vscode-nls\';\nconst localize = nls.loadMessageBundle();\nlocalize({ key: \'a\', comment: [\'A\'] }, \'{0} and {1}\', localize(\'b\', \'B\'),\n\tlocalize({ key: \'c\', comment: [\'C\'] }, \'C\'),\n);\n';
+		result = nlsDev.migrateToL10n([{ fileName: 'extension.ts', contents }]);
+		assert.strictEqual(result[0].contents, 'import * as vscode from \'vscode\';\nvscode.l10n.t({ message: \'{0} and {1}\', args: [vscode.l10n.t(\'B\'),\n\tvscode.l10n.t({ message: \'C\', comment: [\'C\'] })], comment: [\'A\'] });\n');
+
+		contents = 'const nls = require(\'vscode-nls\');\nconst localize = nls.loadMessageBundle();\nlocalize(\'x\', \'X\');\nlocalize(key, \'Y\');\n';
+		result = nlsDev.migrateToL10n([{ fileName: 'extension.js', contents }], { l10n: 'l10n' });
+		assert.strictEqual(result[0].contents, 'const nls = require(\'vscode-nls\');\nconst localize = nls.loadMessageBundle();\nl10n.t(\'X\');\nlocalize(key, \'Y\');\n');
+		assert.deepStrictEqual(result[0].errors, ['(4,10): first argument of a localize call must either be a string literal or an object literal of type LocalizeInfo.']);
+		assert.deepStrictEqual(result[0].warnings, ['(2,18): nls.loadMessageBundle() is kept, because the localize function is not used only by the migrated calls.']);
+
+		contents = '\'use strict\';\nconst nls = require(\'vscode-nls\');\nconst path = require(\'path\');\nconst localize = nls.loadMessageBundle();\nlocalize(\'x\', \'X\');';
+		result = nlsDev.migrateToL10n([{ fileName: 'extension.js', contents }]);
+		assert.strictEqual(result[0].contents, '\'use strict\';\nconst path = require(\'path\');\nconst vscode = require(\'vscode\');\nvscode.l10n.t(\'X\');');
+
+		contents = 'import * as vscode from \'vscode\';\nimport * as nls from \'vscode-nls\';\nnls.config();\nexport const localize = nls.loadMessageBundle();\nlocalize(\'x\', \'X\');\n';
+		result = nlsDev.migrateToL10n([{ fileName: 'nls.ts', contents }]);
+		assert.strictEqual(result[0].contents, 'import * as vscode from \'vscode\';\nimport * as nls from \'vscode-nls\';\nnls.config();\nexport const localize = nls.loadMessageBundle();\nvscode.l10n.t(\'X\');\n');
+	});
 
 	test('https://github.com/Microsoft/vscode/issues/56792', () => {
 		let code: string[] = [
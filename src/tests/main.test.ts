@@ -4,7 +4,44 @@
  *--------------------------------------------------------------------------------------------*/
 
 import assert = require('assert');
+import { readArray, writeArray } from 'event-stream';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import File = require('vinyl');
 import i18n = require('../main');
+import nlsDev = require('../lib');
+
+function removeDirectory(directory: string): void {
+	fs.readdirSync(directory).forEach(name => {
+		const entry = path.join(directory, name);
+		if (fs.lstatSync(entry).isDirectory()) {
+			removeDirectory(entry);
+		} else {
+			fs.unlinkSync(entry);
+		}
+	});
+	fs.rmdirSync(directory);
+}
+
+/**
+ * Writes the files to a temporary directory, runs the test with it and removes it afterwards,
+ * also if the test returns a promise. The paths of the files are relative to the directory.
+ */
+function withTempDirectory(files: { [path: string]: string }, test: (directory: string) => void | Promise<void>): Promise<void> {
+	const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'i18n-'));
+	return Promise.resolve().then(() => {
+		Object.keys(files).forEach(file => {
+			const filePath = path.join(directory, file);
+			fs.mkdirSync(path.dirname(filePath), { recursive: true });
+			fs.writeFileSync(filePath, files[file]);
+		});
+		return test(directory);
+	}).then(() => removeDirectory(directory), error => {
+		removeDirectory(directory);
+		throw error;
+	});
+}
 
 suite('XLF Parser Tests', () => {
 	const sampleXlf = '<?xml version="1.0" encoding="utf-8"?><xliff version="1.2" xmlns="urn:oasis:names:tc:xliff:document:1.2"><file original="vs/base/common/keybinding" source-language="en" datatype="plaintext"><body><trans-unit id="key1"><source xml:lang="en">Key #1</source></trans-unit><trans-unit id="key2"><source xml:lang="en">Key #2 &amp;</source></trans-unit></body></file></xliff>';
@@ -69,4 +106,337 @@ suite('XLF Parser Tests', () => {
 		const expected = '<?xml version="1.0" encoding="utf-8"?><xliff version="1.2" xmlns="urn:oasis:names:tc:xliff:document:1.2"><file original="vs/base/common/keybinding" source-language="en" datatype="plaintext"><body><trans-unit id="key1"><source xml:lang="en">Key #1</source><note>comment1</note></trans-unit></body></file></xliff>';
 		assert.strictEqual(xlfString.replace(/\s{2,}/g, ''), expected);
 	});
-});
\ No newline at end of file
+
+	test('XLIFF 2.0 round-trip', () => {
+		const xlf = new i18n.XLF('vscode-workbench', 'ru', '2.0');
+		xlf.addFile(originalFilePath, [{ key: 'key1', comment: ['comment1'] }, 'key2'], messages);
+		xlf.setLanguageBundle(originalFilePath, ['Кнопка #1', 'Кнопка #2 &']);
+		const xlfString = xlf.toString();
+		const expected = '<?xml version="1.0" encoding="utf-8"?><xliff version="2.0" xmlns="urn:oasis:names:tc:xliff:document:2.0" srcLang="en" trgLang="ru"><file id="f1" original="vs/base/common/keybinding"><unit id="key1"><notes><note>comment1</note></notes><segment><source>Key #1</source><target>Кнопка #1</target></segment></unit><unit id="key2"><segment><source>Key #2 &amp;</source><target>Кнопка #2 &amp;</target></segment></unit></file></xliff>';
+		assert.strictEqual(xlfString.replace(/\s{2,}/g, ''), expected);
+		return i18n.XLF.parse(xlfString).then(resolvedFiles => {
+			assert.deepStrictEqual(resolvedFiles, [{ messages: translatedMessages, originalFilePath, language: 'ru', skippedUnits: [] }]);
+		});
+	});
+
+	test('XLIFF 1.2 round-trip', () => {
+		const xlf = new i18n.XLF('vscode-workbench', 'ru', '1.2');
+		xlf.addFile(originalFilePath, keys, messages);
+		xlf.setLanguageBundle(originalFilePath, ['Кнопка #1', 'Кнопка #2 &']);
+		return i18n.XLF.parse(xlf.toString()).then(resolvedFiles => {
+			assert.deepStrictEqual(resolvedFiles, [{ messages: translatedMessages, originalFilePath, language: 'ru', skippedUnits: [] }]);
+		});
+	});
+
+	test('XLIFF 1.2 with inline markup, CDATA and groups', () => {
+		const xlfString = '<xliff version="1.2" xmlns="urn:oasis:names:tc:xliff:document:1.2"><file original="main" source-language="en" target-language="de" datatype="plaintext"><body>'
+			+ '<group id="views"><group id="list"><trans-unit id="key1"><source>Open {0}</source><target><g id="1">Öffnen</g> <x id="2" equiv-text="{0}"/></target></trans-unit></group></group>'
+			+ '<trans-unit id="key2"><source>Save &amp;&amp;All</source><target><mrk mtype="seg" mid="1">&amp;&amp;Alle</mrk> <ph id="3">&lt;b&gt;</ph>speichern<![CDATA[ <i>&amp;</i>]]></target></trans-unit>'
+			+ '<trans-unit id="key3"><source>Close</source><target></target></trans-unit>'
+			+ '<trans-unit id="key4"><source>Open {0}</source><target>Öffnen <x id="1"/></target></trans-unit>'
+			+ '</body></file></xliff>';
+		return i18n.XLF.parse(xlfString).then(resolvedFiles => {
+			assert.deepStrictEqual(resolvedFiles, [{
+				messages: { key1: 'Öffnen {0}', key2: '&&Alle <b>speichern <i>&amp;</i>' },
+				originalFilePath: 'main',
+				language: 'de',
+				skippedUnits: ['key3', 'key4']
+			}]);
+		});
+	});
+
+	test('XLIFF 2.0 with inline markup and groups', () => {
+		const xlfString = '<xliff version="2.0" xmlns="urn:oasis:names:tc:xliff:document:2.0" srcLang="en" trgLang="de"><file id="f1" original="main"><group id="g1">'
+			+ '<unit id="key1"><segment><source>Open {0}</source><target><pc id="1">Öffnen</pc> <ph id="2" equiv="{0}"/></target></segment></unit>'
+			+ '<unit id="key3"><segment><source>Open {0}</source><target>Öffnen <ph id="1"/></target></segment></unit>'
+			+ '</group><unit id="key2"><segment><source>A.</source><target>A.</target></segment><ignorable><source> </source></ignorable><segment><source>B<cp hex="2026"/></source><target>B<cp hex="2026"/></target></segment></unit>'
+			+ '</file></xliff>';
+		return i18n.XLF.parse(xlfString).then(resolvedFiles => {
+			assert.deepStrictEqual(resolvedFiles[0].messages, { key1: 'Öffnen {0}', key2: 'A. B\u2026' });
+			assert.deepStrictEqual(resolvedFiles[0].skippedUnits, ['key3']);
+		});
+	});
+
+	test('XLIFF 2.0 with multiple segments', () => {
+		const xlfString = '<xliff version="2.0" xmlns="urn:oasis:names:tc:xliff:document:2.0" srcLang="en"><file id="f1" original="main"><unit id="key1"><segment><source>First. </source></segment><segment><source>Second.</source></segment></unit></file></xliff>';
+		return i18n.XLF.parse(xlfString, false).then(resolvedFiles => {
+			assert.deepStrictEqual(resolvedFiles[0].messages, { key1: 'First. Second.' });
+		});
+	});
+});
+
+suite('PO Tests', () => {
+	const originalFilePath = 'vs/base/common/keybinding';
+
+	test('POT round-trip', () => {
+		const po = new i18n.PO('vscode-workbench');
+		po.addFile(originalFilePath, [{ key: 'key1', comment: ['comment1'] }, '', 'key2'], ['Key "1"', '', 'Key\n2']);
+		const poString = po.toString();
+		assert.strictEqual(poString.substr(poString.indexOf('\n\n')), [
+			'',
+			'',
+			'#. comment1',
+			'msgctxt "vs/base/common/keybinding|key1"',
+			'msgid "Key \\"1\\""',
+			'msgstr ""',
+			'',
+			'msgctxt "vs/base/common/keybinding|key2"',
+			'msgid "Key\\n2"',
+			'msgstr ""',
+			''
+		].join('\n'));
+		assert.deepStrictEqual(i18n.PO.parse(poString, false), [{ messages: { key1: 'Key "1"', key2: 'Key\n2' }, originalFilePath, language: '', skippedUnits: [] }]);
+	});
+
+	test('translated PO round-trip', () => {
+		const po = new i18n.PO('vscode-workbench', 'pt-br');
+		po.addFile(originalFilePath, ['key1', 'key2'], ['Key #1', 'Key #2']);
+		po.setLanguageBundle(originalFilePath, ['Tecla #1', '']);
+		assert.ok(po.toString().indexOf('"Language: pt_BR\\n"') > 0);
+		assert.deepStrictEqual(i18n.PO.parse(po.toString()), [{ messages: { key1: 'Tecla #1' }, originalFilePath, language: 'pt-br', skippedUnits: [] }]);
+	});
+
+	test('PO with fuzzy and multi-line entries', () => {
+		const poString = [
+			'msgid ""',
+			'msgstr "Language: ru\\n"',
+			'#, fuzzy',
+			'msgctxt "main|key1"',
+			'msgid "Key #1"',
+			'msgstr "Кнопка"',
+			'msgctxt "main|key2"',
+			'msgid ""',
+			'"Key #2"',
+			'msgstr ""',
+			'"Кнопка "',
+			'"#2"'
+		].join('\n');
+		assert.deepStrictEqual(i18n.PO.parse(poString), [{ messages: { key2: 'Кнопка #2' }, originalFilePath: 'main', language: 'ru', skippedUnits: ['key1'] }]);
+		assert.throws(() => i18n.PO.parse('msgid "Key"\nmsgstr "Кнопка"'), /does not contain msgctxt/);
+		assert.deepStrictEqual(i18n.PO.parse('msgctxt "main|key1"\nmsgid "Key"\nmsgstr "\\a\\v\\?\\101\\x42\\303\\251"', false)[0].messages, { key1: '\x07\v?AB\u00e9' });
+		assert.throws(() => i18n.PO.parse('msgctxt "main|key1"\nmsgid "Key"\nmsgstr "\\q"', false), /invalid escape sequence \\q/);
+	});
+
+	test('preparePoJsonFiles', () => {
+		const poString = 'msgid ""\nmsgstr "Language: pt_BR\\n"\n\nmsgctxt "out/main|key1"\nmsgid "Key #1"\nmsgstr "Tecla #1"\n';
+		return new Promise<File[]>((resolve, reject) => {
+			readArray([new File({ path: 'ext.pt-br.po', contents: Buffer.from(poString) })])
+				.pipe(i18n.preparePoJsonFiles([{ id: 'pt-br', folderName: 'ptb' }]))
+				.on('error', reject)
+				.pipe(writeArray((error, result: File[]) => error ? reject(error) : resolve(result)));
+		}).then(result => {
+			assert.deepStrictEqual(result.map(file => file.path), [path.join('ptb', 'out/main.i18n.json')]);
+			assert.deepStrictEqual(JSON.parse(result[0].contents!.toString()), { key1: 'Tecla #1' });
+		});
+	});
+});
+
+suite('Localize Streams', () => {
+	test('rewriteLocalizeCalls in project mode', () => {
+		const files = [
+			new File({
+				base: '/src',
+				path: '/src/nls.js',
+				contents: Buffer.from('import * as nls from \'vscode-nls\';\nexport const localize = nls.loadMessageBundle();\n')
+			}),
+			new File({
+				base: '/src',
+				path: '/src/view.js',
+				contents: Buffer.from('import { localize } from \'./nls\';\nlocalize(\'view\', \'View\');\n')
+			})
+		];
+		return new Promise<File[]>((resolve, reject) => {
+			readArray(files)
+				.pipe(i18n.rewriteLocalizeCalls({ project: true }))
+				.on('error', reject)
+				.pipe(writeArray((error, result: File[]) => error ? reject(error) : resolve(result)));
+		}).then(result => {
+			assert.deepStrictEqual(result.map(file => file.relative), ['nls.js', 'nls.nls.json', 'nls.nls.metadata.json', 'view.js']);
+			assert.strictEqual(result[1].contents!.toString(), JSON.stringify(['View'], null, '\t'));
+			assert.strictEqual(result[3].contents!.toString(), 'import { localize } from \'./nls\';\nlocalize(0, null);\n');
+		});
+	});
+
+	test('bundleLanguageFiles with a pseudo language', () => {
+		const files = [
+			new File({ base: '/out', path: '/out/main.nls.json', contents: Buffer.from(JSON.stringify(['Open {0}'])) }),
+			new File({ base: '/out', path: '/out/main.nls.de.json', contents: Buffer.from(JSON.stringify(['Öffnen {0}'])) })
+		];
+		return new Promise<File[]>((resolve, reject) => {
+			readArray(files)
+				.pipe(i18n.bundleLanguageFiles([{ id: 'de' }, { id: 'qps-ploc', pseudo: { expansion: 0 } }]))
+				.on('error', reject)
+				.pipe(writeArray((error, result: File[]) => error ? reject(error) : resolve(result)));
+		}).then(result => {
+			assert.deepStrictEqual(result.map(file => file.relative), ['nls.bundle.json', 'nls.bundle.de.json', 'nls.bundle.qps-ploc.json']);
+			assert.deepStrictEqual(JSON.parse(result[2].contents!.toString()), { main: ['[Öþéñ {0}]'] });
+		});
+	});
+
+	test('importL10nBundleFiles', () => {
+		const metadata = { main: { keys: ['open', 'file'], messages: ['Open', 'File'] } };
+		const files = [
+			new File({ base: '/out', path: '/out/nls.metadata.json', contents: Buffer.from(JSON.stringify(metadata)) }),
+			new File({ base: '/l10n', path: '/l10n/bundle.l10n.de.json', contents: Buffer.from(JSON.stringify({ Open: 'Öffnen' })) })
+		];
+		return new Promise<File[]>((resolve, reject) => {
+			readArray(files)
+				.pipe(i18n.importL10nBundleFiles([{ id: 'de', folderName: 'deu' }], 'out'))
+				.on('error', reject)
+				.pipe(writeArray((error, result: File[]) => error ? reject(error) : resolve(result)));
+		}).then(result => {
+			assert.deepStrictEqual(result.map(file => file.path), [path.join('deu', 'out', 'main.i18n.json')]);
+			assert.deepStrictEqual(JSON.parse(result[0].contents!.toString()), { open: 'Öffnen' });
+		});
+	});
+
+	test('checkPackageJsonFiles creating missing keys', () => {
+		const packageJson = {
+			contributes: {
+				commands: [{ command: 'ext.open', title: '%command.open%' }],
+				configuration: { properties: { 'ext.enabled': { description: '%config.enabled%' } } }
+			}
+		};
+		const files = [
+			new File({ base: '/ext', path: '/ext/package.json', contents: Buffer.from(JSON.stringify(packageJson)) }),
+			new File({ base: '/ext', path: '/ext/package.nls.json', contents: Buffer.from(JSON.stringify({ 'command.open': 'Open', 'command.old': 'Old' })) })
+		];
+		return new Promise<File[]>((resolve, reject) => {
+			readArray(files)
+				.pipe(i18n.checkPackageJsonFiles({ createMissing: true, unusedKeys: 'ignore' }))
+				.on('error', reject)
+				.pipe(writeArray((error, result: File[]) => error ? reject(error) : resolve(result)));
+		}).then(result => {
+			assert.deepStrictEqual(result.map(file => file.relative), ['package.json', 'package.nls.json']);
+			assert.deepStrictEqual(JSON.parse(result[1].contents!.toString()), { 'command.open': 'Open', 'command.old': 'Old', 'config.enabled': '' });
+		});
+	});
+
+	test('checkPackageJsonFiles of more extensions', () => {
+		const packageJson = { contributes: { commands: [{ command: 'ext.open', title: '%command.open%' }] } };
+		const check = (nlsContents: string[]) => new Promise<File[]>((resolve, reject) => {
+			readArray([
+				new File({ base: '/', path: '/a/package.json', contents: Buffer.from(JSON.stringify(packageJson)) }),
+				new File({ base: '/', path: '/b/package.json', contents: Buffer.from(JSON.stringify(packageJson)) }),
+				new File({ base: '/', path: '/a/package.nls.json', contents: Buffer.from(nlsContents[0]) }),
+				new File({ base: '/', path: '/b/package.nls.json', contents: Buffer.from(nlsContents[1]) })
+			])
+				.pipe(i18n.checkPackageJsonFiles())
+				.on('error', reject)
+				.pipe(writeArray((error, result: File[]) => error ? reject(error) : resolve(result)));
+		});
+		return check(['{ "command.open": "Open" }', '{ "command.open": "Open" }']).then(result => {
+			assert.deepStrictEqual(result.map(file => file.relative), ['package.json', 'package.nls.json', 'package.json', 'package.nls.json'].map((name, index) => path.join(index < 2 ? 'a' : 'b', name)));
+			return check(['{ "command.open": "Open" }', '{ "command.open": ']);
+		}).then(() => assert.fail('Expected a parse error'), (error: string) => {
+			assert.ok(error.startsWith(`Failed to parse ${path.join('b', 'package.nls.json')}: `), error);
+		});
+	});
+
+});
+
+suite('Message Files', () => {
+	test('fallback languages', () => {
+		return withTempDirectory({
+			'ptb/out/main.i18n.json': '{ "keyOne": "Um (BR)" }',
+			'ptg/out/main.i18n.json': '{ "keyOne": "Um", "keyTwo": "Dois" }'
+		}, i18nBaseDir => {
+			const bundle = nlsDev.resolveMessageBundle({ messages: ['One', 'Two', 'Three'], keys: ['keyOne', 'keyTwo', 'keyThree'] });
+			const result = nlsDev.createLocalizedMessages('main', bundle, 'ptb', i18nBaseDir, 'out', { fallbackFolderNames: ['ptg'] });
+			assert.deepStrictEqual(result.messages, ['Um (BR)', 'Dois', 'Three']);
+			assert.deepStrictEqual(result.problems.map(problem => [problem.code, problem.key]), [['fallback-message', 'keyTwo'], ['missing-message', 'keyThree']]);
+			assert.strictEqual(result.problems[0].message, 'Localized message for key keyTwo taken from \'ptg\'');
+
+			// A missing message file is reported once, not by its messages.
+			const fallbackResult = nlsDev.createLocalizedMessages('main', bundle, 'ptp', i18nBaseDir, 'out', { fallbackFolderNames: ['ptg'] });
+			assert.deepStrictEqual(fallbackResult.messages, ['Um', 'Dois', 'Three']);
+			assert.deepStrictEqual(fallbackResult.problems.map(problem => problem.code), ['missing-file']);
+		});
+	});
+
+	test('createAdditionalLanguageFiles with fallback languages of fallback languages', () => {
+		return withTempDirectory({
+			'ptg/out/main.i18n.json': '{ "keyOne": "Um" }',
+			'esn/out/main.i18n.json': '{ "keyOne": "Uno", "keyTwo": "Dos" }'
+		}, i18nBaseDir => {
+			const languages = [
+				{ id: 'pt-br', folderName: 'ptb', fallback: ['pt'] },
+				{ id: 'pt', folderName: 'ptg', fallback: ['es', 'pt-br'] },
+				{ id: 'es', folderName: 'esn' }
+			];
+			const metadata = new File({ base: '/out', path: '/out/main.nls.metadata.json', contents: Buffer.from(JSON.stringify({ messages: ['One', 'Two'], keys: ['keyOne', 'keyTwo'] })) });
+			return new Promise<File[]>((resolve, reject) => {
+				readArray([metadata])
+					.pipe(i18n.createAdditionalLanguageFiles(languages, i18nBaseDir, 'out', false))
+					.on('error', reject)
+					.pipe(writeArray((error, result: File[]) => error ? reject(error) : resolve(result)));
+			}).then(result => {
+				const ptb = result.find(file => file.basename === 'main.nls.pt-br.json')!;
+				assert.deepStrictEqual(JSON.parse(ptb.contents!.toString()), ['Um', 'Dos']);
+			});
+		});
+	});
+
+	test('l10n bundles', () => {
+		return withTempDirectory({
+			'deu/out/main.i18n.json': '{ "open": "Öffnen", "file": "Datei" }',
+			'deu/out/views/list.i18n.json': '{ "openItem": "Aufmachen" }'
+		}, i18nBaseDir => {
+			const data = {
+				'main': { keys: ['open', { key: 'file', comment: ['menu'] }, ''], messages: ['Open', 'File', ''] },
+				'views/list': { keys: ['openItem'], messages: ['Open'] }
+			};
+			const result = nlsDev.createL10nBundles(data, ['deu'], i18nBaseDir, 'out');
+			assert.deepStrictEqual(Object.assign({}, result.bundle), { 'Open': 'Open', 'File/menu': { message: 'File', comment: ['menu'] } });
+			assert.deepStrictEqual(Object.assign({}, result.translations['deu']), { 'Open': 'Öffnen', 'File/menu': 'Datei' });
+			assert.deepStrictEqual(result.conflicts, ['Message "Open" is translated to \'deu\' differently in main (key open) and views/list (key openItem)']);
+			assert.deepStrictEqual(nlsDev.importL10nTranslations(data, { 'Open': 'Öffnen', 'File/menu': 'Datei' })['views/list'], { openItem: 'Öffnen' });
+		});
+	});
+
+	test('stale translations', () => {
+		const prolog = '/* Copyright */\n// Do not edit this file. It is machine generated.\n';
+		return withTempDirectory({
+			'deu/out/main.i18n.json': prolog + '{\n\t"keyOne": "Eins",\n\t"keyOld": "Alt"\n}',
+			'deu/out/views/removed.i18n.json': '{}'
+		}, i18nBaseDir => {
+			const outDir = path.join(i18nBaseDir, 'deu', 'out');
+			const bundles = { main: nlsDev.resolveMessageBundle({ messages: ['One'], keys: ['keyOne'] }) };
+
+			const result = nlsDev.findStaleTranslations(bundles, 'deu', i18nBaseDir, 'out');
+			assert.deepStrictEqual(result.orphanedFiles, ['views/removed.i18n.json']);
+			assert.deepStrictEqual(Object.assign({}, result.orphanedKeys), { 'main.i18n.json': ['keyOld'] });
+			assert.ok(fs.existsSync(path.join(outDir, 'views', 'removed.i18n.json')));
+
+			nlsDev.findStaleTranslations(bundles, 'deu', i18nBaseDir, 'out', true);
+			assert.ok(!fs.existsSync(path.join(outDir, 'views', 'removed.i18n.json')));
+			assert.strictEqual(fs.readFileSync(path.join(outDir, 'main.i18n.json'), 'utf8'), prolog + '{\n\t"keyOne": "Eins"\n}');
+		});
+	});
+
+	test('translation coverage', () => {
+		return withTempDirectory({
+			'deu/out/main.i18n.json': '// Generated\n{ "keyOne": "Eins", "keyTwo": "Two", "keyThree": "Drei" }'
+		}, i18nBaseDir => {
+			const bundles = {
+				main: nlsDev.resolveMessageBundle({ messages: ['One', 'Two', '{0} Three', 'Four'], keys: ['keyOne', 'keyTwo', 'keyThree', 'keyFour'] }),
+				view: nlsDev.resolveMessageBundle({ messages: ['View'], keys: ['keyView'] })
+			};
+			const coverage = nlsDev.computeTranslationCoverage(bundles, 'deu', i18nBaseDir, 'out');
+			assert.deepStrictEqual(coverage, {
+				language: 'deu', total: 5, translated: 1, missing: 2, identical: 1, invalid: 1, percentage: 20,
+				modules: [
+					{ module: 'main', total: 4, translated: 1, missing: 1, identical: 1, invalid: 1, percentage: 25 },
+					{ module: 'view', total: 1, translated: 0, missing: 1, identical: 0, invalid: 0, percentage: 0 }
+				]
+			});
+			assert.deepStrictEqual(nlsDev.formatCoverageTable([coverage]).split('\n'), [
+				'language  module  total  translated  missing  identical  invalid  percentage',
+				'deu       main        4           1        1          1        1          25',
+				'deu       view        1           0        1          0        0           0',
+				'deu       (all)       5           1        2          1        1          20'
+			]);
+			assert.ok(nlsDev.formatCoverageMarkdown([coverage]).indexOf('| deu | 5 | 1 | 2 | 1 | 1 | 20% |') > 0);
+		});
+	});
+});
@@ -12,7 +12,7 @@ import * as url from 'url';
 import * as yargs from 'yargs';
 import * as glob from 'glob';
 
-import { processFile } from './lib';
+import { processFile, ProcessFileOptions, Severity } from './lib';
 
 const argv = yargs
 	.usage('Usage: vscl [options] files')
@@ -32,12 +32,32 @@ const argv = yargs
 		describe: 'Inline filenames when making localization calls. Only honored when rootDir is set.',
 		boolean: true,
 		demand: false
+	})
+	.option('module', {
+		alias: 'm',
+		describe: 'Additional module specifier to recognise as the vscode-nls run-time. Can be repeated.',
+		string: true,
+		array: true,
+		demand: false
+	})
+	.option('factoryMethod', {
+		alias: 'f',
+		describe: 'Additional factory method name returning a localize function. Can be repeated.',
+		string: true,
+		array: true,
+		demand: false
+	})
+	.option('placeholders', {
+		describe: 'Severity of placeholders not matching the localize call arguments: error, warning or ignore.',
+		choices: ['error', 'warning', 'ignore'],
+		demand: false
 	}).parseSync();
 
 let hasError: boolean = false;
 const outDir = argv.outDir ? path.resolve(argv.outDir) : null;
 const rootDir = argv.rootDir ? path.resolve(argv.rootDir) : null;
 const keepFilenames = Boolean(argv.keepFilenames);
+const options: ProcessFileOptions = { modules: argv.module, factoryMethods: argv.factoryMethod, placeholders: <Severity | undefined>argv.placeholders };
 
 argv._.forEach(element => {
 	if (typeof element === 'number') {
@@ -60,28 +80,31 @@ argv._.forEach(element => {
 			const sourceMapMatches = contents.match(/\/\/#\s+sourceMappingURL=(.*)(?:\r?\n|\n|$)/);
 			if (sourceMapMatches && sourceMapMatches.length === 2) {
 				let sourceMapUrl = url.parse(sourceMapMatches[1]);
-				// For now we only support relative paths
-				if (sourceMapUrl.protocol || sourceMapUrl.host) {
-					console.error(`${file}: protocol or host based source map URLs are not supported.`);
-					hasError = true;
-				}
-				const pathname = sourceMapUrl.pathname;
-				if (pathname) {
-					if (path.isAbsolute(pathname)) {
-						resolvedSourceMapFile = pathname;
-					} else {
-						sourceMapFile = pathname;
-						resolvedSourceMapFile = path.join(path.dirname(file), sourceMapFile);
+				// Inline source maps are read and updated by processFile, otherwise we only support relative paths
+				if (sourceMapUrl.protocol !== 'data:') {
+					if (sourceMapUrl.protocol || sourceMapUrl.host) {
+						console.error(`${file}: protocol or host based source map URLs are not supported.`);
+						hasError = true;
+					}
+					const pathname = sourceMapUrl.pathname;
+					if (pathname) {
+						if (path.isAbsolute(pathname)) {
+							resolvedSourceMapFile = pathname;
+						} else {
+							sourceMapFile = pathname;
+							resolvedSourceMapFile = path.join(path.dirname(file), sourceMapFile);
+						}
+					}
+					if (resolvedSourceMapFile && fs.existsSync(resolvedSourceMapFile)) {
+						sourceMapContent = fs.readFileSync(resolvedSourceMapFile, 'utf8');
 					}
-				}
-				if (resolvedSourceMapFile && fs.existsSync(resolvedSourceMapFile)) {
-					sourceMapContent = fs.readFileSync(resolvedSourceMapFile, 'utf8');
 				}
 			}
 
 			const relativeFilename = keepFilenames && rootDir ? path.relative(rootDir, resolvedFile) : undefined;
-			const result = processFile(contents, relativeFilename, sourceMapContent);
+			const result = processFile(contents, relativeFilename, sourceMapContent, Object.assign({}, options, { fileName: file }));
 
+			result.warnings.forEach(warning => console.warn(`${file}${warning}`));
 			if (result.errors && result.errors.length > 0) {
 				result.errors.forEach(error => console.error(`${file}${error}`));
 				hasError = true;
@@ -9,15 +9,33 @@ import { relative } from 'path';
 import { processFile, removePathPrefix } from './lib';
 import * as path from 'path';
 
+// A string query like ?modules=foo gives a single value instead of an array.
+function toArray(value: string | string[] | undefined): string[] | undefined {
+	return typeof value === 'string' ? [value] : value;
+}
+
 /**
  * A [webpack loader](https://webpack.js.org/api/loaders/) that rewrite nls-calls.
  */
 module.exports = function (this: any, content: any, map: any, meta: any) {
-	console.assert(this.query && typeof this.query.base === 'string', 'Expected {base: string} option');
+	// Parses string queries too, unlike this.query.
+	const query = typeof this.getOptions === 'function' ? this.getOptions() : this.query;
+	console.assert(query && typeof query.base === 'string', 'Expected {base: string, modules?: string[], factoryMethods?: string[], placeholders?: string, compiled?: boolean} option');
+
+	// The content was compiled to JavaScript by the loaders running before this one, like ts-loader.
+	const compiled = query.compiled !== undefined ? query.compiled === true || query.compiled === 'true' : this.loaderIndex < this.loaders.length - 1;
+	const fileName = compiled ? this.resourcePath.substr(0, this.resourcePath.length - path.extname(this.resourcePath).length) + '.js' : this.resourcePath;
 
 	const callback = this.async();
-	const relativePath = relative(this.query.base, this.resourcePath);
-	const result = processFile(content, relativePath, map);
+	const relativePath = relative(query.base, this.resourcePath);
+	const result = processFile(content, relativePath, map, {
+		modules: toArray(query.modules),
+		factoryMethods: toArray(query.factoryMethods),
+		fileName,
+		placeholders: query.placeholders
+	});
+
+	result.warnings.forEach(warning => this.emitWarning(new Error(warning)));
 
 	if (result.errors && result.errors.length > 0) {
 		// error
@@ -28,7 +46,7 @@ module.exports = function (this: any, content: any, map: any, meta: any) {
 	if (result.bundle) {
 		const ext = path.extname(relativePath);
 		const base = relativePath.substr(0, relativePath.length - ext.length);
-		const metaDataContent = { ...result.bundle, filePath: removePathPrefix(base, this.query.base) };
+		const metaDataContent = { ...result.bundle, filePath: removePathPrefix(base, query.base) };
 
 		// this.emitFile(`${base}.nls.json`, JSON.stringify(result.bundle.messages, null, '\t'), 'utf8');
 		this.emitFile(`${base}.nls.metadata.json`, JSON.stringify(metaDataContent, null, '\t'), 'utf8');